@@ -1,8 +1,24 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { LLMMessage, LLMError } from '../index';
-import { AdapterResponse, StreamChunk } from '../types';
+import { LLMMessage, LLMError, LLMToolCall, LLMFinishReason, LLMThinking, JSONSchema } from '../index';
+import { AdapterResponse, AdapterTextOptions, AdapterUsage, StreamChunk, ProviderAdapter } from '../types';
+import { parseToolArguments, parseRetryAfter, reasoningBudget, thinkingText } from '../utils';
+import { estimateTokens } from '../core/tokens';
 
-export class AnthropicAdapter {
+// Thinking blocks, newer than the types of this SDK version
+type ThinkingBlock =
+    | { type: 'thinking'; thinking: string; signature: string }
+    | { type: 'redacted_thinking'; data: string };
+
+type ThinkingStreamEvent = {
+    type: string;
+    content_block?: { type: string; data?: string };
+    delta?: { type: string; thinking?: string; signature?: string };
+};
+
+// Smallest thinking budget the API accepts
+const MIN_THINKING_BUDGET = 1024;
+
+export class AnthropicAdapter implements ProviderAdapter {
     private client: Anthropic;
 
     constructor(apiKey: string) {
@@ -14,7 +30,8 @@ export class AnthropicAdapter {
         system: string,
         messages: LLMMessage[],
         maxTokens: number = 4096,
-        temperature: number = 0.7
+        temperature: number = 0.7,
+        options: AdapterTextOptions = {}
     ): Promise<AdapterResponse> {
         try {
             const anthropicMessages = this.convertMessages(messages);
@@ -23,28 +40,78 @@ export class AnthropicAdapter {
                 model,
                 system,
                 messages: anthropicMessages,
-                max_tokens: maxTokens,
-                temperature
-            });
+                ...this.convertSampling(options),
+                ...this.convertReasoning(options, maxTokens, temperature),
+                ...(options.responseSchema ? this.convertResponseSchema(options) : this.convertTools(options))
+            }, { signal: options.signal });
 
-            const text = response.content[0].type === 'text' 
-                ? response.content[0].text 
-                : '';
+            let text = '';
+            const toolCalls: LLMToolCall[] = [];
+            const thinking: LLMThinking[] = [];
+            for (const block of response.content as (Anthropic.ContentBlock | ThinkingBlock)[]) {
+                if (block.type === 'text') {
+                    text += block.text;
+                } else if (block.type === 'tool_use') {
+                    toolCalls.push({ id: block.id, name: block.name, arguments: block.input });
+                } else if (block.type === 'thinking') {
+                    thinking.push({ text: block.thinking, signature: block.signature });
+                } else if (block.type === 'redacted_thinking') {
+                    thinking.push({ text: '', redacted: block.data });
+                }
+            }
+
+            // Structured output is returned as the input of the forced tool call
+            if (options.responseSchema) {
+                const structured = toolCalls.find(call => call.name === this.responseSchemaName(options));
+                if (!structured) {
+                    throw new Error('No structured output in response');
+                }
+                const data = this.isObjectSchema(options.responseSchema) ? structured.arguments : structured.arguments?.result;
+                return {
+                    response: JSON.stringify(data),
+                    usage: this.convertUsage(response.usage.input_tokens, response.usage.output_tokens, ''),
+                    finishReason: response.stop_reason === 'tool_use' ? 'stop' : this.convertFinishReason(response.stop_reason)
+                };
+            }
 
             return {
                 response: text,
-                usage: {
-                    itoken: response.usage.input_tokens,
-                    otoken: response.usage.output_tokens,
-                    ttoken: 0 // Anthropic does not provide distinguished thinking tokens(included in output tokens)
-                }
+                usage: this.convertUsage(response.usage.input_tokens, response.usage.output_tokens, thinkingText(thinking)),
+                finishReason: this.convertFinishReason(response.stop_reason),
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                ...(thinking.length > 0 ? { thinking } : {})
             };
         } catch (error: any) {
             throw new LLMError(
                 error.message || 'Anthropic API error',
                 'anthropic',
                 error.code,
-                error.status
+                error.status,
+                parseRetryAfter(error.headers)
+            );
+        }
+    }
+
+    async countTokens(model: string, system: string, messages: LLMMessage[], signal?: AbortSignal): Promise<number> {
+        try {
+            // Not in this SDK version, so the endpoint is called directly
+            const response = await this.client.post<unknown, { input_tokens: number }>('/v1/messages/count_tokens', {
+                body: {
+                    model,
+                    ...(system ? { system } : {}),
+                    messages: this.convertMessages(messages)
+                },
+                headers: { 'anthropic-beta': 'token-counting-2024-11-01' },
+                signal
+            });
+            return response.input_tokens;
+        } catch (error: any) {
+            throw new LLMError(
+                error.message || 'Anthropic API error',
+                'anthropic',
+                error.code,
+                error.status,
+                parseRetryAfter(error.headers)
             );
         }
     }
@@ -54,7 +121,8 @@ export class AnthropicAdapter {
         system: string,
         messages: LLMMessage[],
         maxTokens: number = 4096,
-        temperature: number = 0.7
+        temperature: number = 0.7,
+        options: AdapterTextOptions = {}
     ): AsyncGenerator<StreamChunk> {
         try {
             const anthropicMessages = this.convertMessages(messages);
@@ -63,41 +131,97 @@ export class AnthropicAdapter {
                 model,
                 system,
                 messages: anthropicMessages,
-                max_tokens: maxTokens,
-                temperature,
+                ...this.convertSampling(options),
+                ...this.convertReasoning(options, maxTokens, temperature),
+                ...(options.responseSchema ? this.convertResponseSchema(options) : this.convertTools(options)),
                 stream: true
-            });
+            }, { signal: options.signal });
 
-            let streamUsage: { itoken: number; otoken: number; ttoken: number } | undefined;
+            let streamUsage: { itoken: number; otoken: number } | undefined;
+            let streamThinking = '';
+            let finishReason: LLMFinishReason | undefined;
+            // Tool use blocks arrive as partial JSON, keyed by content block index
+            const pendingToolCalls: { [index: number]: { id: string; name: string; json: string } } = {};
+            // Structured output is streamed as text, from the input of the forced tool call
+            const structuredOutput = options.responseSchema
+                ? this.structuredOutputStream(options.responseSchema)
+                : undefined;
+            let structuredIndex: number | undefined;
 
             for await (const chunk of stream) {
+                const thinkingEvent = chunk as ThinkingStreamEvent;
+
                 // Handle different chunk types from Anthropic streaming
                 if (chunk.type === 'message_start') {
                     // Initial message with input token count
                     streamUsage = {
                         itoken: chunk.message.usage.input_tokens,
-                        otoken: 0, // Will be updated later
-                        ttoken: 0
+                        otoken: 0 // Will be updated later
                     };
+                } else if (thinkingEvent.type === 'content_block_start' && thinkingEvent.content_block?.type === 'redacted_thinking') {
+                    yield { type: 'thinking', thinking: { text: '', redacted: thinkingEvent.content_block.data } };
+                } else if (thinkingEvent.type === 'content_block_delta' && thinkingEvent.delta?.type === 'thinking_delta') {
+                    streamThinking += thinkingEvent.delta.thinking || '';
+                    yield { type: 'thinking', thinking: { text: thinkingEvent.delta.thinking || '' } };
+                } else if (thinkingEvent.type === 'content_block_delta' && thinkingEvent.delta?.type === 'signature_delta') {
+                    yield { type: 'thinking', thinking: { text: '', signature: thinkingEvent.delta.signature } };
                 } else if (chunk.type === 'message_delta') {
                     // Message delta may contain final usage info
                     if (chunk.usage && streamUsage) {
                         streamUsage.otoken = chunk.usage.output_tokens;
                     }
+                    finishReason = structuredOutput && chunk.delta.stop_reason === 'tool_use'
+                        ? 'stop'
+                        : this.convertFinishReason(chunk.delta.stop_reason);
+                } else if (structuredOutput && chunk.type === 'content_block_start' &&
+                    chunk.content_block.type === 'tool_use' && chunk.content_block.name === this.responseSchemaName(options)) {
+                    structuredIndex = chunk.index;
+                } else if (chunk.type === 'content_block_delta' && chunk.index === structuredIndex &&
+                    chunk.delta.type === 'input_json_delta') {
+                    const text = structuredOutput!.write(chunk.delta.partial_json);
+                    if (text) {
+                        yield { type: 'text', text };
+                    }
+                } else if (chunk.type === 'content_block_stop' && chunk.index === structuredIndex) {
+                    const text = structuredOutput!.end();
+                    if (text) {
+                        yield { type: 'text', text };
+                    }
+                } else if (chunk.type === 'content_block_start' &&
+                    chunk.content_block.type === 'tool_use') {
+                    pendingToolCalls[chunk.index] = {
+                        id: chunk.content_block.id,
+                        name: chunk.content_block.name,
+                        json: ''
+                    };
                 } else if (chunk.type === 'content_block_delta' && 
                     chunk.delta.type === 'text_delta') {
                     yield {
                         type: 'text',
                         text: chunk.delta.text
                     };
+                } else if (chunk.type === 'content_block_delta' &&
+                    chunk.delta.type === 'input_json_delta' && pendingToolCalls[chunk.index]) {
+                    pendingToolCalls[chunk.index].json += chunk.delta.partial_json;
+                } else if (chunk.type === 'content_block_stop' && pendingToolCalls[chunk.index]) {
+                    const { id, name, json } = pendingToolCalls[chunk.index];
+                    delete pendingToolCalls[chunk.index];
+                    yield {
+                        type: 'tool_call',
+                        toolCall: { id, name, arguments: parseToolArguments(json) }
+                    };
                 } else if (chunk.type === 'message_stop') {
                     // Stream completed - yield final usage data
                     if (streamUsage) {
                         yield {
                             type: 'usage',
-                            usage: streamUsage
+                            usage: this.convertUsage(streamUsage.itoken, streamUsage.otoken, streamThinking)
                         };
                     }
+                    yield {
+                        type: 'finish',
+                        finishReason
+                    };
                     break;
                 }
             }
@@ -106,11 +230,143 @@ export class AnthropicAdapter {
                 error.message || 'Anthropic API error',
                 'anthropic',
                 error.code,
-                error.status
+                error.status,
+                parseRetryAfter(error.headers)
             );
         }
     }
 
+    private convertFinishReason(reason: string | null | undefined): LLMFinishReason | undefined {
+        switch (reason) {
+            case 'end_turn':
+            case 'stop_sequence':
+                return 'stop';
+            case 'max_tokens':
+                return 'length';
+            case 'tool_use':
+                return 'tool_call';
+            case 'refusal':
+                return 'content_filter';
+            default:
+                return undefined;
+        }
+    }
+
+    private convertTools(options: AdapterTextOptions): Pick<Anthropic.MessageCreateParams, 'tools' | 'tool_choice'> {
+        // Anthropic has no 'none' tool choice, so the tools are simply not sent
+        if (!options.tools?.length || options.toolChoice === 'none') {
+            return {};
+        }
+
+        const tools = options.tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters as Anthropic.Tool.InputSchema
+        }));
+
+        const toolChoice = options.toolChoice;
+        if (toolChoice === 'required') {
+            return { tools, tool_choice: { type: 'any' } };
+        } else if (typeof toolChoice === 'object') {
+            return { tools, tool_choice: { type: 'tool', name: toolChoice.name } };
+        }
+        return { tools, tool_choice: { type: 'auto' } };
+    }
+
+    // Anthropic has no JSON mode, so the schema is sent as a tool the model is forced to call
+    private convertResponseSchema(options: AdapterTextOptions): Pick<Anthropic.MessageCreateParams, 'tools' | 'tool_choice'> {
+        const name = this.responseSchemaName(options);
+        const schema = options.responseSchema!;
+
+        // Tool inputs must be objects, other schemas are wrapped in a 'result' property
+        const inputSchema = this.isObjectSchema(schema)
+            ? schema
+            : { type: 'object', properties: { result: schema }, required: ['result'] };
+
+        return {
+            tools: [{
+                name,
+                description: 'Respond with the structured result.',
+                input_schema: inputSchema as Anthropic.Tool.InputSchema
+            }],
+            tool_choice: { type: 'tool', name }
+        };
+    }
+
+    // Turns the partial tool input into the JSON of the structured output, unwrapping the 'result' property of non-object schemas
+    private structuredOutputStream(schema: JSONSchema): { write(json: string): string; end(): string } {
+        if (this.isObjectSchema(schema)) {
+            return { write: json => json, end: () => '' };
+        }
+
+        let buffer = '';
+        let started = false;
+        return {
+            write: (json) => {
+                buffer += json;
+                if (!started) {
+                    const prefix = buffer.match(/^\s*\{\s*"result"\s*:/);
+                    if (!prefix) {
+                        return '';
+                    }
+                    started = true;
+                    buffer = buffer.slice(prefix[0].length);
+                }
+                // Hold back a trailing brace, it may be the one closing the wrapper
+                const held = buffer.match(/[\s}]*$/)![0];
+                const text = buffer.slice(0, buffer.length - held.length);
+                buffer = held;
+                return text;
+            },
+            end: () => started ? buffer.replace(/\}\s*$/, '') : ''
+        };
+    }
+
+    private responseSchemaName(options: AdapterTextOptions): string {
+        return options.responseSchemaName || 'structured_output';
+    }
+
+    private isObjectSchema(schema: JSONSchema): boolean {
+        return schema.type === 'object';
+    }
+
+    private convertSampling(options: AdapterTextOptions) {
+        const sampling = options.sampling || {};
+        return {
+            top_p: sampling.topP,
+            top_k: sampling.topK,
+            stop_sequences: sampling.stopSequences
+        };
+    }
+
+    // Thinking needs the default temperature and top_k, and cannot be combined with the forced tool of structured output
+    private convertReasoning(options: AdapterTextOptions, maxTokens: number, temperature: number) {
+        const budget = options.responseSchema ? undefined : reasoningBudget(options.reasoning);
+        if (budget === undefined) {
+            return { max_tokens: maxTokens, temperature };
+        }
+        if (budget === 0) {
+            return { max_tokens: maxTokens, temperature, thinking: { type: 'disabled' } };
+        }
+        const budgetTokens = Math.max(budget, MIN_THINKING_BUDGET);
+        return {
+            max_tokens: maxTokens + budgetTokens,
+            top_k: undefined,
+            thinking: { type: 'enabled', budget_tokens: budgetTokens }
+        };
+    }
+
+    // Thinking is part of output_tokens without a count of its own, so it is estimated from the returned thinking
+    // Claude 4 models return a summary of their thinking, so the estimate is lower than the billed thinking
+    private convertUsage(inputTokens: number, outputTokens: number, thinking: string): AdapterUsage {
+        const thinkingTokens = Math.min(outputTokens, estimateTokens(thinking, []));
+        return {
+            itoken: inputTokens,
+            otoken: outputTokens - thinkingTokens,
+            ttoken: thinkingTokens
+        };
+    }
+
     private convertMessages(messages: LLMMessage[]): Anthropic.MessageParam[] {
         return messages
             .filter(msg => msg.role !== 'system')
@@ -118,18 +374,50 @@ export class AnthropicAdapter {
                 role: msg.role as 'user' | 'assistant',
                 content: typeof msg.content === 'string' 
                     ? msg.content 
-                    : msg.content.map(c => {
-                        if (c.type === 'text') {
+                    : msg.content
+                    // Thinking from other providers has no signature and is not accepted
+                    .filter(c => c.type !== 'thinking' || c.thinking?.signature || c.thinking?.redacted)
+                    .map((c): Exclude<Anthropic.MessageParam['content'], string>[number] => {
+                        if (c.type === 'thinking' && c.thinking) {
+                            const block: ThinkingBlock = c.thinking.redacted
+                                ? { type: 'redacted_thinking', data: c.thinking.redacted }
+                                : { type: 'thinking', thinking: c.thinking.text, signature: c.thinking.signature! };
+                            return block as unknown as Anthropic.TextBlockParam;
+                        } else if (c.type === 'text') {
                             return { type: 'text', text: c.text || '' };
+                        } else if (c.type === 'tool_call' && c.toolCall) {
+                            return {
+                                type: 'tool_use',
+                                id: c.toolCall.id,
+                                name: c.toolCall.name,
+                                input: c.toolCall.arguments
+                            };
+                        } else if (c.type === 'tool_result' && c.toolResult) {
+                            return {
+                                type: 'tool_result',
+                                tool_use_id: c.toolResult.id,
+                                content: c.toolResult.content,
+                                is_error: c.toolResult.isError
+                            };
                         } else if (c.type === 'image') {
+                            // URL sources are newer than the types of this SDK version
+                            if (typeof c.image === 'object' && 'url' in c.image) {
+                                return { type: 'image', source: { type: 'url', url: c.image.url } } as unknown as Anthropic.ImageBlockParam;
+                            }
                             return { 
                                 type: 'image', 
                                 source: {
                                     type: 'base64',
-                                    media_type: 'image/png',
-                                    data: c.image || ''
+                                    media_type: (c.mimeType || 'image/png') as 'image/png',
+                                    data: c.image as string
                                 }
                             };
+                        } else if (c.type === 'document' && c.document) {
+                            // Document blocks are newer than the types of this SDK version, text documents are sent as text
+                            const source = c.document.mimeType === 'text/plain'
+                                ? { type: 'text', media_type: 'text/plain', data: Buffer.from(c.document.source as string, 'base64').toString('utf8') }
+                                : { type: 'base64', media_type: 'application/pdf', data: c.document.source };
+                            return { type: 'document', source, title: c.document.name } as unknown as Anthropic.TextBlockParam;
                         }
                         return { type: 'text', text: '' };
                     })
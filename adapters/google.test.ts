@@ -0,0 +1,35 @@
+import { GoogleAdapter } from './google';
+
+describe('GoogleAdapter config', () => {
+    const adapter = new GoogleAdapter('test-key');
+    const buildTextConfig = (maxTokens: number, temperature: number, options = {}) =>
+        adapter['buildTextConfig']('You are concise.', maxTokens, temperature, options);
+
+    it('maps the token limit, temperature and sampling parameters', () => {
+        const config = buildTextConfig(1000, 0.2, { sampling: { topP: 0.9, topK: 40, stopSequences: ['END'], seed: 7, presencePenalty: 0.5, frequencyPenalty: 0.1 } });
+
+        expect(config).toMatchObject({
+            systemInstruction: 'You are concise.',
+            maxOutputTokens: 1000,
+            temperature: 0.2,
+            topP: 0.9,
+            topK: 40,
+            stopSequences: ['END'],
+            seed: 7,
+            presencePenalty: 0.5,
+            frequencyPenalty: 0.1
+        });
+    });
+
+    it('adds the thinking budget on top of the token limit', () => {
+        expect(buildTextConfig(1000, 0.2, { reasoning: { budgetTokens: 2048 } })).toMatchObject({
+            maxOutputTokens: 3048,
+            thinkingConfig: { thinkingBudget: 2048, includeThoughts: true }
+        });
+        expect(buildTextConfig(1000, 0.2, { reasoning: 'off' })).toMatchObject({
+            maxOutputTokens: 1000,
+            thinkingConfig: { thinkingBudget: 0, includeThoughts: false }
+        });
+        expect(buildTextConfig(1000, 0.2).thinkingConfig).toBeUndefined();
+    });
+});
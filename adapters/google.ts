@@ -1,8 +1,9 @@
-import { GoogleGenAI, Content, Modality } from '@google/genai';
-import { LLMMessage, LLMError } from '../index';
-import { ImageGenerationOptions, AdapterResponse, StreamChunk } from '../types';
+import { GoogleGenAI, Content, Modality, GenerateContentConfig, FunctionCallingConfigMode, FunctionCall, GenerateContentResponse, FinishReason } from '@google/genai';
+import { LLMMessage, LLMError, LLMToolCall, LLMFinishReason } from '../index';
+import { ImageGenerationOptions, AdapterResponse, AdapterTextOptions, AdapterUsage, StreamChunk, ProviderAdapter } from '../types';
+import { generateToolCallId, parseRetryAfter, parseRetryInfo, reasoningBudget } from '../utils';
 
-export class GoogleAdapter {
+export class GoogleAdapter implements ProviderAdapter {
     private client: GoogleGenAI;
     private clientVertexai: GoogleGenAI|null = null;
 
@@ -46,15 +47,13 @@ export class GoogleAdapter {
         system: string,
         messages: LLMMessage[],
         maxTokens: number = 4096,
-        temperature: number = 0.7
+        temperature: number = 0.7,
+        options: AdapterTextOptions = {}
     ): Promise<AdapterResponse> {
         try {
             const session = this.client.chats.create({
                 model,
-                config: {
-                    responseModalities: ['text'],
-                    systemInstruction: system,
-                },
+                config: this.buildTextConfig(system, maxTokens, temperature, options),
                 history: this.convertMessagesToHistory(messages.slice(0, -1))
             });
 
@@ -64,22 +63,29 @@ export class GoogleAdapter {
                 message: this.convertMessageToParts(lastMessage)
             });
 
-            const text = response.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+            const text = this.extractText(response);
+            const thinking = this.extractThinking(response);
+            const toolCalls = (response.functionCalls ?? []).map(call => this.convertFunctionCall(call));
             
             return {
                 response: text,
                 usage: {
                     itoken: response.usageMetadata?.promptTokenCount || 0,
                     otoken: response.usageMetadata?.candidatesTokenCount || 0,
-                    ttoken: response.usageMetadata?.thoughtsTokenCount || 0
-                }
+                    ttoken: response.usageMetadata?.thoughtsTokenCount || 0,
+                    ctoken: response.usageMetadata?.cachedContentTokenCount || 0
+                },
+                finishReason: this.convertFinishReason(response, toolCalls.length > 0),
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                ...(thinking ? { thinking: [{ text: thinking }] } : {})
             };
         } catch (error: any) {
             throw new LLMError(
                 error.message || 'Google AI API error',
                 'google',
                 error.code,
-                error.status
+                error.status,
+                parseRetryInfo(error.message) ?? parseRetryAfter(error.headers)
             );
         }
     }
@@ -89,15 +95,13 @@ export class GoogleAdapter {
         system: string,
         messages: LLMMessage[],
         maxTokens: number = 4096,
-        temperature: number = 0.7
+        temperature: number = 0.7,
+        options: AdapterTextOptions = {}
     ): AsyncGenerator<StreamChunk> {
         try {
             const session = this.client.chats.create({
                 model,
-                config: {
-                    responseModalities: ['text'],
-                    systemInstruction: system,
-                },
+                config: this.buildTextConfig(system, maxTokens, temperature, options),
                 history: this.convertMessagesToHistory(messages.slice(0, -1))
             });
 
@@ -108,12 +112,28 @@ export class GoogleAdapter {
             });
 
             let lastEvent: any = null;
+            let hasToolCalls = false;
 
             for await (const event of stream) {
-                if (event.text) {
+                const thinking = this.extractThinking(event);
+                if (thinking) {
+                    yield {
+                        type: 'thinking',
+                        thinking: { text: thinking }
+                    };
+                }
+                const text = this.extractText(event);
+                if (text) {
                     yield {
                         type: 'text',
-                        text: event.text
+                        text
+                    };
+                }
+                for (const call of event.functionCalls ?? []) {
+                    hasToolCalls = true;
+                    yield {
+                        type: 'tool_call',
+                        toolCall: this.convertFunctionCall(call)
                     };
                 }
                 lastEvent = event; // Keep track of the last event
@@ -126,22 +146,52 @@ export class GoogleAdapter {
                     usage: {
                         itoken: lastEvent.usageMetadata.promptTokenCount || 0,
                         otoken: lastEvent.usageMetadata.candidatesTokenCount || 0,
-                        ttoken: lastEvent.usageMetadata.thoughtsTokenCount || 0
+                        ttoken: lastEvent.usageMetadata.thoughtsTokenCount || 0,
+                        ctoken: lastEvent.usageMetadata.cachedContentTokenCount || 0
                     }
                 };
             }
+
+            yield {
+                type: 'finish',
+                finishReason: this.convertFinishReason(lastEvent, hasToolCalls)
+            };
         } catch (error: any) {
             throw new LLMError(
                 error.message || 'Google AI API error',
                 'google',
                 error.code,
-                error.status
+                error.status,
+                parseRetryInfo(error.message) ?? parseRetryAfter(error.headers)
             );
         }
     }
 
-    async generateImage(options: ImageGenerationOptions): Promise<{ imageUrl: string; usage: { itoken: number; otoken: number; ttoken: number } }> {
-        const { model, prompt, system, width, height, referenceImage } = options;
+    async countTokens(model: string, system: string, messages: LLMMessage[], signal?: AbortSignal): Promise<number> {
+        try {
+            // The Gemini API does not count systemInstruction, so the system prompt is counted as a leading turn
+            const response = await this.client.models.countTokens({
+                model,
+                contents: [
+                    ...(system ? [{ role: 'user', parts: [{ text: system }] }] : []),
+                    ...this.convertMessagesToHistory(messages)
+                ],
+                config: { abortSignal: signal }
+            });
+            return response.totalTokens || 0;
+        } catch (error: any) {
+            throw new LLMError(
+                error.message || 'Google AI API error',
+                'google',
+                error.code,
+                error.status,
+                parseRetryInfo(error.message) ?? parseRetryAfter(error.headers)
+            );
+        }
+    }
+
+    async generateImage(options: ImageGenerationOptions): Promise<{ imageUrl: string; usage: AdapterUsage }> {
+        const { model, prompt, system, width, height, referenceImage, signal } = options;
         try {
 
             if (model.startsWith('image')) {
@@ -153,6 +203,7 @@ export class GoogleAdapter {
                     model,
                     config: {
                         responseModalities: [Modality.TEXT, Modality.IMAGE],
+                        abortSignal: signal,
                     }
                 });
 
@@ -207,7 +258,8 @@ export class GoogleAdapter {
                             usage: {
                                 itoken: response.usageMetadata?.promptTokenCount || 0,
                                 otoken: response.usageMetadata?.candidatesTokenCount || 0,
-                                ttoken: response.usageMetadata?.thoughtsTokenCount || 0
+                                ttoken: response.usageMetadata?.thoughtsTokenCount || 0,
+                                ctoken: response.usageMetadata?.cachedContentTokenCount || 0
                             }
                         };
                     }
@@ -222,12 +274,13 @@ export class GoogleAdapter {
                 error.message || 'Google AI API error',
                 'google',
                 error.code,
-                error.status
+                error.status,
+                parseRetryInfo(error.message) ?? parseRetryAfter(error.headers)
             );
         }
     }
 
-    async generateImageVertex(options: ImageGenerationOptions): Promise<{ imageUrl: string; usage: { itoken: number; otoken: number; ttoken: number } }> {
+    async generateImageVertex(options: ImageGenerationOptions): Promise<{ imageUrl: string; usage: AdapterUsage }> {
 
         await this.initVertexai();
 
@@ -273,7 +326,7 @@ export class GoogleAdapter {
         const res = await this.clientVertexai!.models.generateImages({
             model: options.model,
             prompt: options.prompt,
-            config: { aspectRatio, outputMimeType: 'image/png' }
+            config: { aspectRatio, outputMimeType: 'image/png', abortSignal: options.signal }
         })
 
         let bytes = res.generatedImages?.[0].image?.imageBytes;
@@ -289,6 +342,107 @@ export class GoogleAdapter {
             
     }
 
+    private buildTextConfig(system: string, maxTokens: number, temperature: number, options: AdapterTextOptions): GenerateContentConfig {
+        const sampling = options.sampling || {};
+        const thinkingBudget = reasoningBudget(options.reasoning);
+        const config: GenerateContentConfig = {
+            responseModalities: ['text'],
+            systemInstruction: system,
+            // Thinking counts towards maxOutputTokens, so the budget is added on top of the answer's limit
+            maxOutputTokens: maxTokens + (thinkingBudget || 0),
+            thinkingConfig: thinkingBudget !== undefined
+                ? { thinkingBudget, includeThoughts: thinkingBudget > 0 }
+                : undefined,
+            temperature,
+            topP: sampling.topP,
+            topK: sampling.topK,
+            stopSequences: sampling.stopSequences,
+            seed: sampling.seed,
+            presencePenalty: sampling.presencePenalty,
+            frequencyPenalty: sampling.frequencyPenalty,
+            abortSignal: options.signal
+        };
+
+        if (options.responseSchema) {
+            // responseJsonSchema takes plain JSON Schema, responseSchema only the OpenAPI subset
+            config.responseMimeType = 'application/json';
+            config.responseJsonSchema = options.responseSchema;
+        }
+
+        if (options.tools?.length) {
+            config.tools = [{
+                functionDeclarations: options.tools.map(tool => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parametersJsonSchema: tool.parameters
+                }))
+            }];
+
+            const toolChoice = options.toolChoice;
+            config.toolConfig = {
+                functionCallingConfig: toolChoice === 'none'
+                    ? { mode: FunctionCallingConfigMode.NONE }
+                    : toolChoice === 'required'
+                    ? { mode: FunctionCallingConfigMode.ANY }
+                    : typeof toolChoice === 'object'
+                    ? { mode: FunctionCallingConfigMode.ANY, allowedFunctionNames: [toolChoice.name] }
+                    : { mode: FunctionCallingConfigMode.AUTO }
+            };
+        }
+
+        return config;
+    }
+
+    // Same as response.text, without the SDK warning when function call parts are present
+    private extractText(response: GenerateContentResponse): string {
+        return (response.candidates?.[0]?.content?.parts ?? [])
+            .filter(part => part.text && !part.thought)
+            .map(part => part.text)
+            .join('');
+    }
+
+    // Thought summaries, returned with includeThoughts
+    private extractThinking(response: GenerateContentResponse): string {
+        return (response.candidates?.[0]?.content?.parts ?? [])
+            .filter(part => part.text && part.thought)
+            .map(part => part.text)
+            .join('');
+    }
+
+    private convertFinishReason(response: GenerateContentResponse | null, hasToolCalls: boolean): LLMFinishReason | undefined {
+        if (response?.promptFeedback?.blockReason) {
+            return 'content_filter';
+        }
+        if (hasToolCalls) {
+            return 'tool_call';
+        }
+        switch (response?.candidates?.[0]?.finishReason) {
+            case undefined:
+                return undefined;
+            case FinishReason.STOP:
+                return 'stop';
+            case FinishReason.MAX_TOKENS:
+                return 'length';
+            case FinishReason.SAFETY:
+            case FinishReason.RECITATION:
+            case FinishReason.BLOCKLIST:
+            case FinishReason.PROHIBITED_CONTENT:
+            case FinishReason.SPII:
+            case FinishReason.IMAGE_SAFETY:
+                return 'content_filter';
+            default:
+                return 'error';
+        }
+    }
+
+    private convertFunctionCall(call: FunctionCall): LLMToolCall {
+        return {
+            id: call.id || generateToolCallId(), // Gemini API does not always assign call ids
+            name: call.name || '',
+            arguments: call.args || {}
+        };
+    }
+
     private convertMessagesToHistory(messages: LLMMessage[]): Content[] {
         return messages.map(msg => ({
             role: msg.role === 'user' ? 'user' : 'model',
@@ -301,14 +455,40 @@ export class GoogleAdapter {
             return [{ text: message.content }];
         }
         
-        return message.content.map(c => {
+        // Thinking is not sent back, Gemini keeps no thinking across turns
+        return message.content.filter(c => c.type !== 'thinking').map(c => {
             if (c.type === 'text') {
                 return { text: c.text || '' };
+            } else if (c.type === 'tool_call' && c.toolCall) {
+                return {
+                    functionCall: {
+                        id: c.toolCall.id,
+                        name: c.toolCall.name,
+                        args: c.toolCall.arguments
+                    }
+                };
+            } else if (c.type === 'tool_result' && c.toolResult) {
+                return {
+                    functionResponse: {
+                        id: c.toolResult.id,
+                        name: c.toolResult.name,
+                        response: c.toolResult.isError
+                            ? { error: c.toolResult.content }
+                            : { output: c.toolResult.content }
+                    }
+                };
             } else if (c.type === 'image') {
                 return { 
                     inlineData: {
-                        data: c.image || '',
-                        mimeType: 'image/png'
+                        data: c.image as string, // base64 once withImageInput loaded it
+                        mimeType: c.mimeType || 'image/png'
+                    }
+                };
+            } else if (c.type === 'document' && c.document) {
+                return {
+                    inlineData: {
+                        data: c.document.source as string, // base64 once withDocumentInput loaded it
+                        mimeType: c.document.mimeType || 'application/pdf'
                     }
                 };
             }
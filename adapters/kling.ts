@@ -1,9 +1,11 @@
 import axios from 'axios';
 import * as jwt from 'jsonwebtoken';
-import { LLMMessage, LLMError } from '../index';
-import { ImageGenerationOptions, AdapterResponse } from '../types';
+import { LLMError } from '../index';
+import { ImageGenerationOptions, ProviderAdapter } from '../types';
+import { sleep, parseRetryAfter } from '../utils';
+import { cassetteHttp, pollDelay } from '../core/cassette';
 
-type KlingCredential = {
+export type KlingCredential = {
     id: string;
     secret: string;
 }
@@ -34,10 +36,12 @@ type KlingTaskStatusResponse = {
     };
 }
 
-export class KlingAdapter {
+export class KlingAdapter implements ProviderAdapter {
     private credential: KlingCredential | null = null;
 
-    constructor() {}
+    constructor(credential?: KlingCredential) {
+        this.credential = credential || null;
+    }
 
     private async getCredential(): Promise<KlingCredential> {
         if (!this.credential) {
@@ -71,28 +75,8 @@ export class KlingAdapter {
         }, cred.secret, { header: { alg: 'HS256', typ: 'JWT' } });
     }
 
-    async generateText(
-        model: string,
-        system: string,
-        messages: LLMMessage[],
-        maxTokens: number = 4096,
-        temperature: number = 0.7
-    ): Promise<AdapterResponse> {
-        throw new LLMError('Text generation not supported by Kling', 'kling', 'NOT_SUPPORTED');
-    }
-
-    async *generateStream(
-        model: string,
-        system: string,
-        messages: LLMMessage[],
-        maxTokens: number = 4096,
-        temperature: number = 0.7
-    ): AsyncGenerator<string> {
-        throw new LLMError('Streaming not supported by Kling', 'kling', 'NOT_SUPPORTED');
-    }
-
     async generateImage(options: ImageGenerationOptions): Promise<{ imageUrl: string; usage: { itoken: number; otoken: number; ttoken: number } }> {
-        const { model, prompt, system, width, height, referenceImage } = options;
+        const { model, prompt, system, width, height, referenceImage, signal } = options;
         try {
             const token = await this.generateJWT();
             
@@ -159,7 +143,9 @@ export class KlingAdapter {
                     headers: {
                         Authorization: `Bearer ${token}`,
                         'Content-Type': 'application/json',
-                    }
+                    },
+                    signal,
+                    ...cassetteHttp()
                 }
             );
 
@@ -179,7 +165,7 @@ export class KlingAdapter {
             }
 
             // Poll for completion
-            const imageUrl = await this.pollForCompletion(task_id, token);
+            const imageUrl = await this.pollForCompletion(task_id, token, signal);
             
             // Kling returns URLs, not base64
             return {
@@ -195,22 +181,29 @@ export class KlingAdapter {
                 error.message || 'Kling API error',
                 'kling',
                 error.code,
-                error.response?.status
+                error.response?.status,
+                parseRetryAfter(error.response?.headers)
             );
         }
     }
 
-    private async pollForCompletion(taskId: string, token: string): Promise<string> {
+    private async pollForCompletion(taskId: string, token: string, signal?: AbortSignal): Promise<string> {
         const maxAttempts = 60; // 10 minutes with 10 second intervals
         const pollInterval = 10000; // 10 seconds
 
         for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            if (signal?.aborted) {
+                throw new LLMError('Image generation aborted', 'kling', 'ABORTED');
+            }
+
             const response = await axios.get<KlingTaskStatusResponse>(
                 `https://api-singapore.klingai.com/v1/images/get-result?task_id=${taskId}`,
                 {
                     headers: {
                         Authorization: `Bearer ${token}`,
-                    }
+                    },
+                    signal,
+                    ...cassetteHttp()
                 }
             );
 
@@ -232,7 +225,9 @@ export class KlingAdapter {
                 try {
                     const imageResponse = await axios.get(imageUrl, {
                         responseType: 'arraybuffer',
-                        timeout: 30000 // 30 seconds timeout
+                        timeout: 30000, // 30 seconds timeout
+                        signal,
+                        ...cassetteHttp()
                     });
                     
                     const base64 = Buffer.from(imageResponse.data).toString('base64');
@@ -249,7 +244,7 @@ export class KlingAdapter {
             }
 
             // Wait before next poll
-            await new Promise(resolve => setTimeout(resolve, pollInterval));
+            await sleep(pollDelay(pollInterval), signal);
         }
 
         throw new LLMError('Image generation timed out', 'kling', 'TIMEOUT');
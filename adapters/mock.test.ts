@@ -0,0 +1,126 @@
+import { generateText, getMockCalls, LLMError, resetMock, setMockResponses, unregisterTrackingSink } from '../index';
+import { StreamChunk } from '../types';
+import { MockAdapter } from './mock';
+
+const adapter = new MockAdapter();
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+async function chunks(stream: AsyncIterable<StreamChunk>): Promise<StreamChunk[]> {
+    const received: StreamChunk[] = [];
+    for await (const chunk of stream) {
+        received.push(chunk);
+    }
+    return received;
+}
+
+beforeAll(() => {
+    unregisterTrackingSink('console');
+});
+
+beforeEach(() => {
+    resetMock();
+});
+
+describe('MockAdapter', () => {
+    it('replies in script order, repeats the last reply and records the calls', async () => {
+        setMockResponses('scripted', [{ text: 'First' }, { text: 'Second' }]);
+
+        const replies = [];
+        for (let call = 0; call < 3; call++) {
+            replies.push((await adapter.generateText('scripted', 'Be brief.', messages)).response);
+        }
+
+        expect(replies).toEqual(['First', 'Second', 'Second']);
+        expect((await adapter.generateText('unscripted', '', messages)).response).toBe('This is a mock response.');
+        expect(getMockCalls()).toHaveLength(4);
+        expect(getMockCalls()[0]).toMatchObject({ method: 'generateText', model: 'scripted', system: 'Be brief.', messages });
+    });
+
+    it('streams text word by word with the usage and finish reason last', async () => {
+        setMockResponses('words', { text: 'Hello there', usage: { otoken: 2 } });
+
+        const received = await chunks(adapter.generateStream('words', '', messages));
+
+        expect(received).toEqual([
+            { type: 'text', text: 'Hello ' },
+            { type: 'text', text: 'there' },
+            { type: 'usage', usage: { itoken: 2, otoken: 2, ttoken: 0 } },
+            { type: 'finish', finishReason: 'stop' }
+        ]);
+    });
+
+    it('fails with the scripted error', async () => {
+        setMockResponses('failing', [{ error: 'rate_limit', retryAfterMs: 2000 }, { error: 'server_error' }]);
+
+        const rateLimit = await adapter.generateText('failing', '', messages).catch(error => error);
+        const serverError = await adapter.generateText('failing', '', messages).catch(error => error);
+
+        expect(rateLimit).toBeInstanceOf(LLMError);
+        expect(rateLimit).toMatchObject({ statusCode: 429, retryAfterMs: 2000 });
+        expect(serverError).toMatchObject({ statusCode: 500 });
+    });
+
+    it('replies with JSON cut in half for malformed_json', async () => {
+        setMockResponses('broken', { data: { panels: ['a', 'b'] }, error: 'malformed_json' });
+
+        const { response } = await adapter.generateText('broken', '', messages);
+
+        expect(response).toBe('{"panels":');
+        expect(() => JSON.parse(response)).toThrow();
+    });
+
+    it('drops a stream after failAfterChunks chunks for disconnect', async () => {
+        setMockResponses('dropped', { chunks: ['a', 'b', 'c', 'd'], error: 'disconnect' });
+
+        const received: StreamChunk[] = [];
+        const error = await (async () => {
+            for await (const chunk of adapter.generateStream('dropped', '', messages)) {
+                received.push(chunk);
+            }
+        })().catch(error => error);
+
+        expect(received).toEqual([{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }]);
+        expect(error).toMatchObject({ code: 'ECONNRESET' });
+    });
+
+    it('waits latencyMs before replying and stops waiting when aborted', async () => {
+        setMockResponses('slow', { text: 'Late', latencyMs: 50 });
+        const startedAt = Date.now();
+
+        await adapter.generateText('slow', '', messages);
+        const elapsed = Date.now() - startedAt;
+        const controller = new AbortController();
+        const aborted = adapter.generateText('slow', '', messages, undefined, undefined, { signal: controller.signal });
+        controller.abort();
+
+        expect(elapsed).toBeGreaterThanOrEqual(45);
+        await expect(aborted).rejects.toMatchObject({ code: 'ABORTED' });
+    });
+
+    it('returns the scripted image', async () => {
+        setMockResponses('painter', { imageUrl: 'https://example.com/cover.png' });
+
+        const image = await adapter.generateImage({ model: 'painter', prompt: 'A cover' });
+
+        expect(image.imageUrl).toBe('https://example.com/cover.png');
+        expect(getMockCalls()[0]).toMatchObject({ method: 'generateImage', model: 'painter', prompt: 'A cover' });
+    });
+
+    it('lets the client retry a rate limit after the requested delay', async () => {
+        setMockResponses('limited', [{ error: 'rate_limit', retryAfterMs: 30 }, { text: 'Done' }]);
+        const startedAt = Date.now();
+
+        const response = await generateText({
+            model: { mock: 'limited' },
+            system: '',
+            messages,
+            fallbackOrder: ['mock'],
+            retry: 1,
+            retryPolicy: { initialDelayMs: 1, jitter: false },
+            errorLevel: 'error'
+        });
+
+        expect(response.text).toBe('Done');
+        expect(Date.now() - startedAt).toBeGreaterThanOrEqual(25);
+    });
+});
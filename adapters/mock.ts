@@ -0,0 +1,213 @@
+import { LLMError, LLMMessage, LLMToolCall, LLMFinishReason } from '../index';
+import { AdapterResponse, AdapterImageResponse, AdapterTextOptions, AdapterUsage, ImageGenerationOptions, ProviderAdapter, StreamChunk } from '../types';
+import { sleep, abortError } from '../utils';
+
+// Failures the mock provider can simulate
+// 'timeout' hangs for latencyMs (default 60000) unless the attempt times out first,
+// 'malformed_json' replies with JSON cut in half and 'disconnect' drops a stream after failAfterChunks chunks
+export type MockFailure = 'rate_limit' | 'server_error' | 'timeout' | 'malformed_json' | 'disconnect';
+
+// Scripted reply of the mock provider
+export type MockResponse = {
+    text?: string; // Text reply, streamed word by word
+    chunks?: string[]; // Stream chunks, joined as the text reply
+    data?: any; // Reply serialized as JSON, for structured data
+    imageUrl?: string;
+    toolCalls?: LLMToolCall[];
+    thinking?: string; // Thinking returned before the reply
+    usage?: Partial<AdapterUsage>; // Default estimates 4 characters per token
+    finishReason?: LLMFinishReason;
+    latencyMs?: number; // Delay before the reply
+    chunkDelayMs?: number; // Delay between stream chunks
+    error?: MockFailure;
+    failAfterChunks?: number; // Chunks streamed before a 'disconnect' (default half of them)
+    retryAfterMs?: number; // Retry-After of a 'rate_limit'
+}
+
+// A call received by the mock provider
+export type MockCall = {
+    method: 'generateText' | 'generateStream' | 'generateImage';
+    model: string;
+    system?: string;
+    messages?: LLMMessage[];
+    prompt?: string;
+    options?: Omit<AdapterTextOptions, 'signal'>;
+}
+
+const DEFAULT_RESPONSE: MockResponse = { text: 'This is a mock response.' };
+const DEFAULT_IMAGE_URL = 'https://example.com/mock-image.png';
+
+const scripts: { [model: string]: { responses: MockResponse[]; next: number } } = {};
+let calls: MockCall[] = [];
+
+/**
+ * Script the replies of a mock model
+ * @param model Model name used in the request's `model.mock`
+ * @param responses Replies in call order - the last one repeats once they run out
+ */
+export function setMockResponses(model: string, responses: MockResponse | MockResponse[]): void {
+    scripts[model] = { responses: Array.isArray(responses) ? responses : [responses], next: 0 };
+}
+
+// Calls received since the last reset, oldest first
+export function getMockCalls(): MockCall[] {
+    return [...calls];
+}
+
+// Forget all scripted replies and received calls
+export function resetMock(): void {
+    for (const model of Object.keys(scripts)) {
+        delete scripts[model];
+    }
+    calls = [];
+}
+
+export class MockAdapter implements ProviderAdapter {
+    async generateText(
+        model: string,
+        system: string,
+        messages: LLMMessage[],
+        maxTokens?: number,
+        temperature?: number,
+        options: AdapterTextOptions = {}
+    ): Promise<AdapterResponse> {
+        const { signal, ...callOptions } = options;
+        calls.push({ method: 'generateText', model, system, messages, options: callOptions });
+        const response = this.nextResponse(model);
+
+        await this.delay(response.latencyMs, signal);
+        await this.fail(response, signal);
+
+        const text = this.replyText(response);
+        return {
+            response: text,
+            usage: this.usage(response, system, messages, text),
+            finishReason: this.finishReason(response),
+            ...(response.toolCalls?.length ? { toolCalls: response.toolCalls } : {}),
+            ...(response.thinking ? { thinking: [{ text: response.thinking, signature: 'mock' }] } : {})
+        };
+    }
+
+    async *generateStream(
+        model: string,
+        system: string,
+        messages: LLMMessage[],
+        maxTokens?: number,
+        temperature?: number,
+        options: AdapterTextOptions = {}
+    ): AsyncGenerator<StreamChunk> {
+        const { signal, ...callOptions } = options;
+        calls.push({ method: 'generateStream', model, system, messages, options: callOptions });
+        const response = this.nextResponse(model);
+
+        await this.delay(response.latencyMs, signal);
+        if (response.error !== 'disconnect') {
+            await this.fail(response, signal);
+        }
+
+        const chunks = response.chunks || this.replyText(response).match(/\S+\s*|\s+/g) || [];
+        const failAfterChunks = response.error === 'disconnect'
+            ? response.failAfterChunks ?? Math.floor(chunks.length / 2)
+            : chunks.length;
+
+        if (response.thinking) {
+            yield { type: 'thinking', thinking: { text: response.thinking } };
+            yield { type: 'thinking', thinking: { text: '', signature: 'mock' } };
+        }
+
+        for (const [index, text] of chunks.entries()) {
+            if (index === failAfterChunks) {
+                throw new LLMError('Connection reset by mock provider', 'mock', 'ECONNRESET');
+            }
+            if (index > 0) {
+                await this.delay(response.chunkDelayMs, signal);
+            }
+            yield { type: 'text', text };
+        }
+        if (response.error === 'disconnect' && failAfterChunks >= chunks.length) {
+            throw new LLMError('Connection reset by mock provider', 'mock', 'ECONNRESET');
+        }
+
+        for (const toolCall of response.toolCalls || []) {
+            yield { type: 'tool_call', toolCall };
+        }
+        yield { type: 'usage', usage: this.usage(response, system, messages, chunks.join('')) };
+        yield { type: 'finish', finishReason: this.finishReason(response) };
+    }
+
+    async generateImage(options: ImageGenerationOptions): Promise<AdapterImageResponse> {
+        calls.push({ method: 'generateImage', model: options.model, system: options.system, prompt: options.prompt });
+        const response = this.nextResponse(options.model);
+
+        await this.delay(response.latencyMs, options.signal);
+        await this.fail(response, options.signal);
+
+        return {
+            imageUrl: response.imageUrl || DEFAULT_IMAGE_URL,
+            usage: { itoken: 0, otoken: 0, ttoken: 0, ...response.usage }
+        };
+    }
+
+    private nextResponse(model: string): MockResponse {
+        const script = scripts[model];
+        if (!script) {
+            return DEFAULT_RESPONSE;
+        }
+        const response = script.responses[Math.min(script.next, script.responses.length - 1)];
+        script.next++;
+        return response;
+    }
+
+    private async delay(ms: number | undefined, signal?: AbortSignal): Promise<void> {
+        if (ms) {
+            await sleep(ms, signal);
+        }
+        if (signal?.aborted) {
+            throw abortError(signal, 'mock');
+        }
+    }
+
+    // Throw the scripted failure - malformed JSON is returned as the reply instead
+    private async fail(response: MockResponse, signal?: AbortSignal): Promise<void> {
+        switch (response.error) {
+            case 'rate_limit':
+                throw new LLMError('Rate limit exceeded (mock)', 'mock', 'rate_limit_exceeded', 429, response.retryAfterMs);
+            case 'server_error':
+                throw new LLMError('Internal server error (mock)', 'mock', 'server_error', 500);
+            case 'timeout':
+                // latencyMs has already passed
+                if (!response.latencyMs) {
+                    await this.delay(60000, signal);
+                }
+                throw new LLMError('Request timed out (mock)', 'mock', 'TIMEOUT');
+            case 'disconnect':
+                throw new LLMError('Connection reset by mock provider', 'mock', 'ECONNRESET');
+        }
+    }
+
+    private replyText(response: MockResponse): string {
+        const text = response.chunks?.join('')
+            ?? (response.data !== undefined ? JSON.stringify(response.data) : undefined)
+            ?? response.text
+            ?? (response.toolCalls?.length ? '' : DEFAULT_RESPONSE.text!);
+        if (response.error === 'malformed_json') {
+            const json = text || JSON.stringify(response.data ?? { mock: true });
+            return json.slice(0, Math.ceil(json.length / 2));
+        }
+        return text;
+    }
+
+    private usage(response: MockResponse, system: string, messages: LLMMessage[], text: string): AdapterUsage {
+        const prompt = system + messages.map(message => typeof message.content === 'string' ? message.content : JSON.stringify(message.content)).join('');
+        return {
+            itoken: Math.ceil(prompt.length / 4),
+            otoken: Math.ceil(text.length / 4),
+            ttoken: Math.ceil((response.thinking || '').length / 4),
+            ...response.usage
+        };
+    }
+
+    private finishReason(response: MockResponse): LLMFinishReason {
+        return response.finishReason || (response.toolCalls?.length ? 'tool_call' : 'stop');
+    }
+}
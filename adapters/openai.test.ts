@@ -0,0 +1,56 @@
+import '../index'; // Loads the adapters in order - venice extends this one
+import { OpenAIAdapter } from './openai';
+
+describe('OpenAIAdapter response schema', () => {
+    const adapter = new OpenAIAdapter('test-key');
+    const responseFormat = (responseSchema: any) => (adapter['convertResponseSchema']({ responseSchema }).response_format as any).json_schema;
+
+    it('sends closed objects with every property required in strict mode', () => {
+        const format = responseFormat({
+            type: 'object',
+            properties: { title: { type: 'string' }, panels: { type: 'array', items: { type: 'object', properties: { caption: { type: 'string' } }, required: ['caption'] } } },
+            required: ['title', 'panels']
+        });
+
+        expect(format.strict).toBe(true);
+        expect(format.schema).toEqual({
+            type: 'object',
+            properties: {
+                title: { type: 'string' },
+                panels: { type: 'array', items: { type: 'object', properties: { caption: { type: 'string' } }, required: ['caption'], additionalProperties: false } }
+            },
+            required: ['title', 'panels'],
+            additionalProperties: false
+        });
+    });
+
+    it('makes optional properties nullable', () => {
+        const format = responseFormat({
+            type: 'object',
+            properties: {
+                title: { type: 'string' },
+                subtitle: { type: 'string' },
+                mood: { enum: ['calm', 'tense'] },
+                rating: { type: ['number', 'null'] }
+            },
+            required: ['title']
+        });
+
+        expect(format.strict).toBe(true);
+        expect(format.schema.required).toEqual(['title', 'subtitle', 'mood', 'rating']);
+        expect(format.schema.properties).toEqual({
+            title: { type: 'string' },
+            subtitle: { type: ['string', 'null'] },
+            mood: { anyOf: [{ enum: ['calm', 'tense'] }, { type: 'null' }] },
+            rating: { type: ['number', 'null'] }
+        });
+    });
+
+    it('sends schemas strict mode cannot express without it', () => {
+        const schema = { type: 'object', properties: { tags: { type: 'object', additionalProperties: { type: 'string' } } } };
+        const format = responseFormat(schema);
+
+        expect(format.strict).toBeUndefined();
+        expect(format.schema).toBe(schema);
+    });
+});
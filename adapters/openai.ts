@@ -1,12 +1,89 @@
 import OpenAI, {toFile} from 'openai';
 import axios from 'axios';
-import { LLMMessage, LLMError, LLMProvider } from '../index';
-import { ImageGenerationOptions, AdapterResponse, StreamChunk } from '../types';
+import { JSONSchema, LLMMessage, LLMError, LLMProvider, LLMToolCall, LLMFinishReason } from '../index';
+import { ImageGenerationOptions, AdapterResponse, AdapterTextOptions, AdapterUsage, StreamChunk, ProviderAdapter } from '../types';
 import { ImageEditParams } from 'openai/resources/images';
 import { Uploadable } from 'openai/uploads';
-import { isValidBase64 } from '../utils';
+import { isValidBase64, parseToolArguments, parseRetryAfter, reasoningBudget, reasoningEffort } from '../utils';
 
-export class OpenAIAdapter {
+// Reasoning returned by OpenAI-compatible APIs such as xAI and Venice, OpenAI itself does not return its reasoning
+type ReasoningContent = { reasoning_content?: string };
+
+// Keywords strict structured output does not support
+const NON_STRICT_KEYWORDS = [
+    'allOf', 'oneOf', 'not', 'if', 'then', 'else', 'prefixItems', 'patternProperties', 'propertyNames',
+    'dependentRequired', 'dependentSchemas', 'unevaluatedProperties', 'minProperties', 'maxProperties'
+];
+
+// An optional property as strict mode takes it - required, with null standing for a missing value
+function nullable(schema: JSONSchema): JSONSchema {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.includes('null') || (Array.isArray(schema.enum) && schema.enum.includes(null))) {
+        return schema;
+    }
+    return schema.type && !schema.enum && schema.const === undefined
+        ? { ...schema, type: [...types, 'null'] }
+        : { anyOf: [schema, { type: 'null' }] };
+}
+
+/**
+ * A schema in the form strict structured output requires - every object closed with
+ * additionalProperties false and all of its properties required, optional ones as nullable
+ * The client removes the nulls of optional properties after parsing, see removeNullOptionals
+ * @returns The strict schema, or undefined when the schema allows extra properties or uses unsupported keywords
+ */
+function strictSchema(schema: JSONSchema): JSONSchema | undefined {
+    if (NON_STRICT_KEYWORDS.some(keyword => keyword in schema) || Array.isArray(schema.items)) {
+        return undefined;
+    }
+    const strict: JSONSchema = { ...schema };
+
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (schema.properties || types.includes('object')) {
+        // Closing an object without properties would only allow {}
+        if (!schema.properties || (schema.additionalProperties !== undefined && schema.additionalProperties !== false)) {
+            return undefined;
+        }
+        strict.properties = {};
+        const required: string[] = schema.required || [];
+        for (const [key, property] of Object.entries<JSONSchema>(schema.properties)) {
+            const strictProperty = strictSchema(property);
+            if (!strictProperty) {
+                return undefined;
+            }
+            strict.properties[key] = required.includes(key) ? strictProperty : nullable(strictProperty);
+        }
+        strict.required = Object.keys(schema.properties);
+        strict.additionalProperties = false;
+    }
+
+    if (schema.items) {
+        strict.items = strictSchema(schema.items);
+        if (!strict.items) {
+            return undefined;
+        }
+    }
+    if (Array.isArray(schema.anyOf)) {
+        strict.anyOf = schema.anyOf.map(strictSchema);
+        if (strict.anyOf.includes(undefined)) {
+            return undefined;
+        }
+    }
+    for (const key of ['$defs', 'definitions']) {
+        if (schema[key]) {
+            strict[key] = {};
+            for (const [name, definition] of Object.entries<JSONSchema>(schema[key])) {
+                strict[key][name] = strictSchema(definition);
+                if (!strict[key][name]) {
+                    return undefined;
+                }
+            }
+        }
+    }
+    return strict;
+}
+
+export class OpenAIAdapter implements ProviderAdapter {
     private client: OpenAI;
     private provider: LLMProvider = 'openai';
 
@@ -28,7 +105,7 @@ export class OpenAIAdapter {
         messages: LLMMessage[],
         maxTokens: number = 4096,
         temperature: number = 0.7,
-        otherOptions: object = {}
+        options: AdapterTextOptions = {}
     ): Promise<AdapterResponse> {
         try {
             const openaiMessages = this.convertMessages(messages, system);
@@ -36,27 +113,34 @@ export class OpenAIAdapter {
             const response = await this.client.chat.completions.create({
                 model,
                 messages: openaiMessages,
-                max_tokens: maxTokens,
-                temperature,
-                ...otherOptions
-            });
+                ...this.convertReasoning(options, maxTokens, temperature),
+                ...this.convertSampling(options),
+                ...this.convertTools(options),
+                ...this.convertResponseSchema(options)
+            }, { signal: options.signal });
 
             const text = response.choices[0]?.message?.content || '';
+            const reasoning = (response.choices[0]?.message as ReasoningContent | undefined)?.reasoning_content;
+            const toolCalls: LLMToolCall[] = (response.choices[0]?.message?.tool_calls || []).map(call => ({
+                id: call.id,
+                name: call.function.name,
+                arguments: parseToolArguments(call.function.arguments)
+            }));
             
             return {
                 response: text,
-                usage: {
-                    itoken: response.usage?.prompt_tokens || 0,
-                    otoken: response.usage?.completion_tokens || 0,
-                    ttoken: response.usage?.completion_tokens_details?.reasoning_tokens || 0 // OpenAI's thinking tokens for reasoning models
-                }
+                usage: this.convertUsage(response.usage),
+                finishReason: this.convertFinishReason(response.choices[0]?.finish_reason),
+                ...(toolCalls.length > 0 ? { toolCalls } : {}),
+                ...(reasoning ? { thinking: [{ text: reasoning }] } : {})
             };
         } catch (error: any) {
             throw new LLMError(
                 error.message || 'OpenAI API error',
                 this.provider,
                 error.code,
-                error.status
+                error.status,
+                parseRetryAfter(error.headers)
             );
         }
     }
@@ -66,7 +150,8 @@ export class OpenAIAdapter {
         system: string,
         messages: LLMMessage[],
         maxTokens: number = 4096,
-        temperature: number = 0.7
+        temperature: number = 0.7,
+        options: AdapterTextOptions = {}
     ): AsyncGenerator<StreamChunk> {
         try {
             const openaiMessages = this.convertMessages(messages, system);
@@ -74,13 +159,27 @@ export class OpenAIAdapter {
             const stream = await this.client.chat.completions.create({
                 model,
                 messages: openaiMessages,
-                max_tokens: maxTokens,
-                temperature,
+                ...this.convertReasoning(options, maxTokens, temperature),
+                ...this.convertSampling(options),
+                ...this.convertTools(options),
+                ...this.convertResponseSchema(options),
                 stream: true,
                 stream_options: { include_usage: true } // Enable usage data in streaming
-            });
+            }, { signal: options.signal });
+
+            // Tool call deltas arrive in pieces, keyed by tool call index
+            const pendingToolCalls: { id: string; name: string; arguments: string }[] = [];
+            let finishReason: LLMFinishReason | undefined;
 
             for await (const chunk of stream) {
+                const reasoning = (chunk.choices[0]?.delta as ReasoningContent | undefined)?.reasoning_content;
+                if (reasoning) {
+                    yield {
+                        type: 'thinking',
+                        thinking: { text: reasoning }
+                    };
+                }
+
                 const content = chunk.choices[0]?.delta?.content;
                 
                 // Yield text content chunks
@@ -90,31 +189,55 @@ export class OpenAIAdapter {
                         text: content
                     };
                 }
+
+                for (const delta of chunk.choices[0]?.delta?.tool_calls || []) {
+                    const pending = pendingToolCalls[delta.index] ||= { id: '', name: '', arguments: '' };
+                    pending.id += delta.id || '';
+                    pending.name += delta.function?.name || '';
+                    pending.arguments += delta.function?.arguments || '';
+                }
+
+                if (chunk.choices[0]?.finish_reason) {
+                    finishReason = this.convertFinishReason(chunk.choices[0].finish_reason);
+                }
                 
                 // Final chunk contains usage data
                 if (chunk.usage) {
                     yield {
                         type: 'usage',
-                        usage: {
-                            itoken: chunk.usage.prompt_tokens || 0,
-                            otoken: chunk.usage.completion_tokens || 0,
-                            ttoken: chunk.usage.completion_tokens_details?.reasoning_tokens || 0
-                        }
+                        usage: this.convertUsage(chunk.usage)
                     };
                 }
             }
+
+            for (const pending of pendingToolCalls.filter(Boolean)) {
+                yield {
+                    type: 'tool_call',
+                    toolCall: {
+                        id: pending.id,
+                        name: pending.name,
+                        arguments: parseToolArguments(pending.arguments)
+                    }
+                };
+            }
+
+            yield {
+                type: 'finish',
+                finishReason
+            };
         } catch (error: any) {
             throw new LLMError(
                 error.message || 'OpenAI API error',
                 this.provider,
                 error.code,
-                error.status
+                error.status,
+                parseRetryAfter(error.headers)
             );
         }
     }
 
     async generateImage(options: ImageGenerationOptions): Promise<{ imageUrl: string; usage: { itoken: number; otoken: number; ttoken: number } }> {
-        const { model, prompt, system, width, height, referenceImage } = options;
+        const { model, prompt, system, width, height, referenceImage, signal } = options;
         
         try {
             
@@ -156,7 +279,7 @@ export class OpenAIAdapter {
                     editParams.size = `${width}x${height}` as ImageEditParams['size'];
                 }
                 
-                const response = await this.client.images.edit(editParams);
+                const response = await this.client.images.edit(editParams, { signal });
                 
                 // Response contains base64 data
                 const b64_json = response.data?.[0]?.b64_json;
@@ -242,7 +365,7 @@ export class OpenAIAdapter {
                 params.response_format = 'b64_json'; // Request base64 for consistency
             }
 
-            const response = await this.client.images.generate(params);
+            const response = await this.client.images.generate(params, { signal });
 
             // Handle response based on format
             if (model === 'gpt-image-1' || params.response_format === 'b64_json') {
@@ -264,7 +387,8 @@ export class OpenAIAdapter {
                 
                 // Download and convert to base64
                 const imageResponse = await axios.get(imageUrl, {
-                    responseType: 'arraybuffer'
+                    responseType: 'arraybuffer',
+                    signal
                 });
                 const base64 = Buffer.from(imageResponse.data).toString('base64');
                 return {
@@ -277,11 +401,99 @@ export class OpenAIAdapter {
                 error.message || 'OpenAI API error',
                 this.provider,
                 error.code,
-                error.status
+                error.status,
+                parseRetryAfter(error.headers)
             );
         }
     }
 
+    private convertFinishReason(reason: string | null | undefined): LLMFinishReason | undefined {
+        switch (reason) {
+            case 'stop':
+                return 'stop';
+            case 'length':
+                return 'length';
+            case 'content_filter':
+                return 'content_filter';
+            case 'tool_calls':
+            case 'function_call':
+                return 'tool_call';
+            default:
+                return undefined;
+        }
+    }
+
+    // Reasoning tokens are part of completion_tokens, they are reported as thinking tokens only
+    private convertUsage(usage: OpenAI.CompletionUsage | undefined): AdapterUsage {
+        const reasoningTokens = usage?.completion_tokens_details?.reasoning_tokens || 0;
+        return {
+            itoken: usage?.prompt_tokens || 0,
+            otoken: (usage?.completion_tokens || 0) - reasoningTokens,
+            ttoken: reasoningTokens,
+            ctoken: usage?.prompt_tokens_details?.cached_tokens || 0
+        };
+    }
+
+    // Reasoning models take max_completion_tokens, which includes the reasoning, and reject temperature
+    protected convertReasoning(options: AdapterTextOptions, maxTokens: number, temperature: number): Pick<OpenAI.Chat.ChatCompletionCreateParams, 'max_tokens' | 'max_completion_tokens' | 'temperature' | 'reasoning_effort'> {
+        const effort = reasoningEffort(options.reasoning);
+        if (!effort) {
+            return { max_tokens: maxTokens, temperature };
+        }
+        return { max_completion_tokens: maxTokens + reasoningBudget(options.reasoning)!, reasoning_effort: effort };
+    }
+
+    protected convertSampling(options: AdapterTextOptions): Pick<OpenAI.Chat.ChatCompletionCreateParams, 'top_p' | 'stop' | 'seed' | 'presence_penalty' | 'frequency_penalty'> {
+        const sampling = options.sampling || {};
+        return {
+            top_p: sampling.topP,
+            stop: sampling.stopSequences,
+            seed: sampling.seed,
+            presence_penalty: sampling.presencePenalty,
+            frequency_penalty: sampling.frequencyPenalty
+        };
+    }
+
+    private convertTools(options: AdapterTextOptions): Pick<OpenAI.Chat.ChatCompletionCreateParams, 'tools' | 'tool_choice'> {
+        if (!options.tools?.length) {
+            return {};
+        }
+
+        const toolChoice = options.toolChoice;
+        return {
+            tools: options.tools.map(tool => ({
+                type: 'function',
+                function: {
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters
+                }
+            })),
+            tool_choice: typeof toolChoice === 'object'
+                ? { type: 'function', function: { name: toolChoice.name } }
+                : toolChoice || 'auto'
+        };
+    }
+
+    private convertResponseSchema(options: AdapterTextOptions): Pick<OpenAI.Chat.ChatCompletionCreateParams, 'response_format'> {
+        if (!options.responseSchema) {
+            return {};
+        }
+
+        // Strict mode guarantees the schema is followed, schemas it cannot express are sent without it
+        const strict = options.responseSchema.type === 'object' ? strictSchema(options.responseSchema) : undefined;
+        return {
+            response_format: {
+                type: 'json_schema',
+                json_schema: {
+                    name: options.responseSchemaName || 'structured_output',
+                    schema: strict || options.responseSchema,
+                    ...(strict ? { strict: true } : {})
+                }
+            }
+        };
+    }
+
     private convertMessages(messages: LLMMessage[], system: string): OpenAI.Chat.ChatCompletionMessageParam[] {
         const openaiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
         
@@ -295,16 +507,60 @@ export class OpenAIAdapter {
                     role: msg.role as 'user' | 'assistant',
                     content: msg.content
                 });
+            } else if (msg.content.some(c => c.type === 'tool_call' || c.type === 'tool_result')) {
+                // Tool calls go on the assistant message, tool results become 'tool' role messages
+                const toolCalls = msg.content.filter(c => c.type === 'tool_call' && c.toolCall).map(c => c.toolCall!);
+                const toolResults = msg.content.filter(c => c.type === 'tool_result' && c.toolResult).map(c => c.toolResult!);
+                const text = msg.content.filter(c => c.type === 'text').map(c => c.text || '').join('');
+
+                if (toolCalls.length > 0) {
+                    openaiMessages.push({
+                        role: 'assistant',
+                        content: text || null,
+                        tool_calls: toolCalls.map(call => ({
+                            id: call.id,
+                            type: 'function',
+                            function: {
+                                name: call.name,
+                                arguments: JSON.stringify(call.arguments ?? {})
+                            }
+                        }))
+                    });
+                }
+                for (const result of toolResults) {
+                    openaiMessages.push({
+                        role: 'tool',
+                        tool_call_id: result.id,
+                        content: result.content
+                    });
+                }
+                if (toolCalls.length === 0 && text) {
+                    openaiMessages.push({
+                        role: msg.role as 'user' | 'assistant',
+                        content: text
+                    });
+                }
             } else {
-                // Handle multimodal content
-                const content: any[] = msg.content.map(c => {
+                // Handle multimodal content, thinking is not sent back
+                const content: any[] = msg.content.filter(c => c.type !== 'thinking').map(c => {
                     if (c.type === 'text') {
                         return { type: 'text', text: c.text || '' };
                     } else if (c.type === 'image') {
                         return {
                             type: 'image_url',
                             image_url: {
-                                url: `data:image/png;base64,${c.image}`
+                                url: typeof c.image === 'object' && 'url' in c.image
+                                    ? c.image.url
+                                    : `data:${c.mimeType || 'image/png'};base64,${c.image}`
+                            }
+                        };
+                    } else if (c.type === 'document' && c.document) {
+                        // Only PDFs reach the adapter, text documents are sent as text parts
+                        return {
+                            type: 'file',
+                            file: {
+                                filename: c.document.name || 'document.pdf',
+                                file_data: `data:application/pdf;base64,${c.document.source}`
                             }
                         };
                     }
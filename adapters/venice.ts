@@ -1,6 +1,7 @@
 import { OpenAIAdapter } from './openai';
-import { ImageGenerationOptions, AdapterUsage, AdapterResponse, StreamChunk } from '../types';
-import { LLMError, LLMMessage } from '../index';
+import { ImageGenerationOptions, AdapterUsage, AdapterTextOptions, StreamChunk } from '../types';
+import { LLMError } from '../index';
+import { parseRetryAfter, reasoningBudget } from '../utils';
 
 interface VeniceImageRequest {
     model: string;
@@ -41,14 +42,23 @@ export class VeniceAdapter extends OpenAIAdapter {
         this.apiKey = apiKey;
     }
 
-    async generateText(model: string, system: string, messages: LLMMessage[], maxTokens?: number, temperature?: number): Promise<AdapterResponse> {
-         return super.generateText(model, system, messages, maxTokens, temperature, {
-            venice_parameters: { disable_thinking: true }
-         });
+    // Venice only turns thinking on or off - it stays off unless reasoning asks for it
+    protected convertReasoning(options: AdapterTextOptions, maxTokens: number, temperature: number) {
+        const budget = reasoningBudget(options.reasoning) || 0;
+        return {
+            max_tokens: maxTokens + budget,
+            temperature,
+            venice_parameters: { disable_thinking: budget === 0 }
+        };
+    }
+
+    // Venice also takes top_k, which the OpenAI API does not have
+    protected convertSampling(options: AdapterTextOptions) {
+        return { ...super.convertSampling(options), top_k: options.sampling?.topK };
     }
 
     async generateImage(options: ImageGenerationOptions): Promise<{ imageUrl: string; usage: AdapterUsage }> {
-        const { model, prompt, width, height, referenceImage } = options;
+        const { model, prompt, width, height, referenceImage, signal } = options;
 
         try {
             // Check if we should use image edit endpoint for inpainting
@@ -84,7 +94,8 @@ export class VeniceAdapter extends OpenAIAdapter {
                         'Authorization': `Bearer ${this.apiKey}`,
                         'Content-Type': 'application/json'
                     },
-                    body: JSON.stringify(requestBody)
+                    body: JSON.stringify(requestBody),
+                    signal
                 });
 
                 if (!response.ok) {
@@ -93,7 +104,8 @@ export class VeniceAdapter extends OpenAIAdapter {
                         error || `Venice image edit error: ${response.status}`,
                         'venice',
                         undefined,
-                        response.status
+                        response.status,
+                        parseRetryAfter(response.headers)
                     );
                 }
 
@@ -137,7 +149,8 @@ export class VeniceAdapter extends OpenAIAdapter {
                     'Authorization': `Bearer ${this.apiKey}`,
                     'Content-Type': 'application/json'
                 },
-                body: JSON.stringify(requestBody)
+                body: JSON.stringify(requestBody),
+                signal
             });
 
             if (!response.ok) {
@@ -146,7 +159,8 @@ export class VeniceAdapter extends OpenAIAdapter {
                     error.error || `Venice image generation error: ${response.status}`,
                     'venice',
                     undefined,
-                    response.status
+                    response.status,
+                    parseRetryAfter(response.headers)
                 );
             }
 
@@ -1,7 +1,16 @@
 import { OpenAIAdapter } from './openai';
+import { AdapterTextOptions } from '../types';
 
 export class XAIAdapter extends OpenAIAdapter {
     constructor(apiKey: string) {
         super(apiKey, 'https://api.x.ai/v1');
     }
+
+    // Grok takes only 'low' and 'high' reasoning effort
+    protected convertReasoning(options: AdapterTextOptions, maxTokens: number, temperature: number) {
+        const params = super.convertReasoning(options, maxTokens, temperature);
+        return params.reasoning_effort
+            ? { ...params, reasoning_effort: params.reasoning_effort === 'low' ? 'low' as const : 'high' as const }
+            : params;
+    }
 }
\ No newline at end of file
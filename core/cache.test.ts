@@ -0,0 +1,60 @@
+import { configureResponseCache, getCachedResponse, memoryCacheStore, responseCacheKey, setCachedResponse } from './cache';
+
+afterEach(() => {
+    configureResponseCache({ store: undefined, ttlMs: undefined });
+});
+
+describe('responseCacheKey', () => {
+    it('does not depend on object key order', () => {
+        expect(responseCacheKey({ model: 'm', options: { a: 1, b: 2 } })).toBe(responseCacheKey({ options: { b: 2, a: 1 }, model: 'm' }));
+    });
+
+    it('changes with any value', () => {
+        expect(responseCacheKey({ messages: ['a', 'b'] })).not.toBe(responseCacheKey({ messages: ['b', 'a'] }));
+        expect(responseCacheKey({ temperature: 0 })).not.toBe(responseCacheKey({ temperature: 0.1 }));
+    });
+});
+
+describe('memoryCacheStore', () => {
+    it('evicts the least recently used entry', () => {
+        const store = memoryCacheStore(2);
+        store.set('a', { value: 1 });
+        store.set('b', { value: 2 });
+        store.get('a');
+        store.set('c', { value: 3 });
+
+        expect(store.get('a')).toEqual({ value: 1 });
+        expect(store.get('b')).toBeUndefined();
+        expect(store.get('c')).toEqual({ value: 3 });
+    });
+
+    it('returns copies of the stored entries', () => {
+        const store = memoryCacheStore();
+        const value = { text: 'cached' };
+        store.set('a', { value });
+        value.text = 'changed';
+
+        expect(store.get('a')).toEqual({ value: { text: 'cached' } });
+    });
+});
+
+describe('cached responses', () => {
+    it('are not stored without a store', async () => {
+        await setCachedResponse('key', 'value', undefined);
+        expect(await getCachedResponse('key')).toBeUndefined();
+    });
+
+    it('expire after the request ttl, then the default ttl', async () => {
+        jest.useFakeTimers();
+        configureResponseCache({ store: memoryCacheStore(), ttlMs: 1000 });
+        await setCachedResponse('short', 'value', { ttlMs: 100 });
+        await setCachedResponse('default', 'value', undefined);
+
+        jest.advanceTimersByTime(100);
+        expect(await getCachedResponse('short')).toBeUndefined();
+        expect(await getCachedResponse('default')).toBe('value');
+        jest.advanceTimersByTime(900);
+        expect(await getCachedResponse('default')).toBeUndefined();
+        jest.useRealTimers();
+    });
+});
@@ -0,0 +1,154 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { RequestCacheOption } from '../index';
+
+// Response cache - identical adapter calls are answered from a store instead of the provider
+
+export type ResponseCacheEntry = {
+    value: any; // JSON-serializable adapter response
+    expiresAt?: number; // Epoch ms, no expiry when missing
+}
+
+export type ResponseCacheStore = {
+    get(key: string): ResponseCacheEntry | undefined | Promise<ResponseCacheEntry | undefined>;
+    set(key: string, entry: ResponseCacheEntry): void | Promise<void>;
+    delete(key: string): void | Promise<void>;
+    clear?(): void | Promise<void>; // Called by clearResponseCache
+}
+
+export type ResponseCacheOptions = {
+    store?: ResponseCacheStore; // Enables the cache, set to undefined to disable it
+    ttlMs?: number; // Lifetime of entries unless the request sets one, no expiry when missing
+}
+
+let options: ResponseCacheOptions = {};
+
+/**
+ * Configure the response cache shared by all clients
+ * @param cacheOptions Options to change, the others keep their current value
+ */
+export function configureResponseCache(cacheOptions: ResponseCacheOptions): void {
+    options = { ...options, ...cacheOptions };
+}
+
+export async function clearResponseCache(): Promise<void> {
+    await options.store?.clear?.();
+}
+
+// Whether an adapter call with this request option goes through the cache
+export function isResponseCacheEnabled(cache: RequestCacheOption | undefined): boolean {
+    return !!options.store && cache !== false;
+}
+
+// Key of an adapter call - a hash of everything sent to the provider, independent of object key order
+export function responseCacheKey(call: object): string {
+    const json = JSON.stringify(call, (_key, value) => value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.keys(value).sort().map(name => [name, value[name]]))
+        : value
+    );
+    return createHash('sha256').update(json).digest('hex');
+}
+
+// Digest of content too large to put in a key as is, such as loaded image data
+export function contentDigest(data: string): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+// Cached response of a key, undefined when missing or expired - a failing store never fails the request
+export async function getCachedResponse<T>(key: string): Promise<T | undefined> {
+    const store = options.store;
+    if (!store) {
+        return undefined;
+    }
+    try {
+        const entry = await store.get(key);
+        if (!entry) {
+            return undefined;
+        }
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            await store.delete(key);
+            return undefined;
+        }
+        return entry.value;
+    } catch (error: any) {
+        console.warn(`[LLM-WARN] Failed to read response cache: ${error.message}`);
+        return undefined;
+    }
+}
+
+export async function setCachedResponse(key: string, value: any, cache: RequestCacheOption | undefined): Promise<void> {
+    const store = options.store;
+    if (!store) {
+        return;
+    }
+    const ttlMs = (typeof cache === 'object' ? cache.ttlMs : undefined) ?? options.ttlMs;
+    try {
+        await store.set(key, { value, expiresAt: ttlMs !== undefined ? Date.now() + ttlMs : undefined });
+    } catch (error: any) {
+        console.warn(`[LLM-WARN] Failed to write response cache: ${error.message}`);
+    }
+}
+
+// Keeps the most recently used entries in memory
+export function memoryCacheStore(maxEntries: number = 1000): ResponseCacheStore {
+    const entries = new Map<string, string>();
+
+    return {
+        get: (key) => {
+            const entry = entries.get(key);
+            if (entry === undefined) {
+                return undefined;
+            }
+            // Re-insert so the Map order stays least recently used first
+            entries.delete(key);
+            entries.set(key, entry);
+            return JSON.parse(entry);
+        },
+        set: (key, entry) => {
+            // Stored serialized so callers cannot change cached responses
+            entries.delete(key);
+            entries.set(key, JSON.stringify(entry));
+            while (entries.size > maxEntries) {
+                entries.delete(entries.keys().next().value!);
+            }
+        },
+        delete: (key) => {
+            entries.delete(key);
+        },
+        clear: () => {
+            entries.clear();
+        }
+    };
+}
+
+// One JSON file per entry in a directory, shared across processes and restarts
+export function fileCacheStore(directory: string): ResponseCacheStore {
+    const file = (key: string) => path.join(directory, `${key}.json`);
+
+    return {
+        get: async (key) => {
+            try {
+                return JSON.parse(await fs.readFile(file(key), 'utf8'));
+            } catch (error: any) {
+                if (error.code === 'ENOENT') {
+                    return undefined;
+                }
+                throw error;
+            }
+        },
+        set: async (key, entry) => {
+            await fs.mkdir(directory, { recursive: true });
+            await fs.writeFile(file(key), JSON.stringify(entry));
+        },
+        delete: async (key) => {
+            await fs.rm(file(key), { force: true });
+        },
+        clear: async () => {
+            const names = await fs.readdir(directory).catch(() => [] as string[]);
+            await Promise.all(names
+                .filter(name => name.endsWith('.json'))
+                .map(name => fs.rm(path.join(directory, name), { force: true })));
+        }
+    };
+}
@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ejectCassette, generateStream, generateText, getMockCalls, resetMock, setMockResponses, unregisterTrackingSink, useCassette } from '../index';
+
+const request = {
+    model: { mock: 'taped' },
+    system: 'You are concise.',
+    messages: [{ role: 'user' as const, content: 'Name a color' }],
+    fallbackOrder: ['mock'],
+    retry: 0,
+    errorLevel: 'error' as const
+};
+
+let file: string;
+
+async function collect(stream: AsyncIterable<any>): Promise<any[]> {
+    const events: any[] = [];
+    for await (const event of stream) {
+        events.push(event);
+    }
+    return events;
+}
+
+// Interactions saved in the cassette file
+async function recorded(): Promise<any[]> {
+    return JSON.parse(await fs.readFile(file, 'utf8')).interactions;
+}
+
+beforeAll(() => {
+    unregisterTrackingSink('console');
+});
+
+beforeEach(async () => {
+    resetMock();
+    file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-')), 'fixture.json');
+});
+
+afterEach(async () => {
+    await ejectCassette();
+});
+
+describe('cassettes', () => {
+    it('replays recorded calls without calling the provider', async () => {
+        setMockResponses('taped', { text: 'Teal' });
+        useCassette({ path: file, mode: 'record' });
+        await generateText(request);
+        await ejectCassette();
+
+        resetMock();
+        useCassette({ path: file, mode: 'replay' });
+        const response = await generateText(request);
+
+        expect(response.text).toBe('Teal');
+        expect(getMockCalls()).toHaveLength(0);
+    });
+
+    it('replays stream chunks and the error that ended the stream', async () => {
+        setMockResponses('taped', { chunks: ['Dark', ' teal', '!'], error: 'disconnect', failAfterChunks: 2 });
+        useCassette({ path: file, mode: 'record' });
+        const recording = await collect(generateStream(request));
+        await ejectCassette();
+
+        useCassette({ path: file, mode: 'replay' });
+        const replay = await collect(generateStream(request));
+
+        expect(replay.filter(event => event.type === 'delta').map(event => event.text)).toEqual(['Dark', ' teal']);
+        expect(replay[replay.length - 1]).toMatchObject({ type: 'error', error: { message: recording[recording.length - 1].error.message } });
+    });
+
+    it('does not record a stream the caller stopped reading', async () => {
+        setMockResponses('taped', [{ chunks: ['Dark', ' teal'] }, { text: 'Teal' }]);
+        useCassette({ path: file, mode: 'record' });
+        for await (const event of generateStream(request)) {
+            if (event.type === 'delta') break;
+        }
+        await generateText(request);
+        await ejectCassette();
+
+        expect((await recorded()).map(interaction => interaction.method)).toEqual(['generateText']);
+    });
+
+    it('fails calls without a recording', async () => {
+        setMockResponses('taped', { text: 'Teal' });
+        useCassette({ path: file, mode: 'record' });
+        await generateText(request);
+        await ejectCassette();
+
+        useCassette({ path: file, mode: 'replay' });
+
+        await expect(generateText({ ...request, system: 'You are verbose.' })).rejects.toMatchObject({ code: 'CASSETTE_MISS' });
+    });
+});
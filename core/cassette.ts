@@ -0,0 +1,333 @@
+import { promises as fs, readFileSync } from 'fs';
+import * as path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import axios, { AxiosAdapter, AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { LLMError, LLMProvider } from '../index';
+import { AdapterResponse, AdapterImageResponse, AdapterTextOptions, ImageGenerationOptions, ProviderAdapter, StreamChunk } from '../types';
+import { responseCacheKey } from './cache';
+import type { ProviderRegistration } from './registry';
+
+// Cassettes - provider calls recorded to a fixture file and replayed without credentials or network
+
+export type CassetteMode = 'record' | 'replay';
+
+export type CassetteOptions = {
+    path: string; // JSON fixture file, overwritten when recording
+    mode: CassetteMode;
+}
+
+export type CassetteInteraction = {
+    key: string; // Hash of provider, method and request, used to match calls on replay
+    provider: LLMProvider;
+    method: 'generateText' | 'generateStream' | 'generateImage' | 'countTokens';
+    request: any; // Adapter arguments without the abort signal
+    response?: AdapterResponse | AdapterImageResponse | number;
+    chunks?: StreamChunk[]; // Stream chunks received before the stream ended or failed
+    exchanges?: CassetteExchange[]; // HTTP responses of adapters that make several calls, like Kling's polling
+    error?: {
+        message: string;
+        code?: string;
+        statusCode?: number;
+        retryAfterMs?: number;
+    };
+}
+
+// One HTTP response received through cassetteHttp, in call order
+export type CassetteExchange = {
+    method: string;
+    url: string;
+    status?: number; // Missing when the request failed without a response
+    headers?: { [name: string]: string };
+    data?: any;
+    encoding?: 'base64'; // data holds binary data, e.g. a downloaded image
+    error?: string; // Network error without a response
+}
+
+// HTTP exchanges of the adapter call being recorded or replayed
+type HttpScope = {
+    mode: CassetteMode;
+    exchanges: CassetteExchange[];
+}
+
+// Response headers adapters read, others are not recorded
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'retry-after-ms'];
+
+type Cassette = {
+    options: CassetteOptions;
+    interactions: CassetteInteraction[];
+    replayed: { [key: string]: number }; // Times each key was replayed
+    writing: Promise<void>;
+}
+
+let cassette: Cassette | undefined;
+const httpScope = new AsyncLocalStorage<HttpScope>();
+
+/**
+ * Record or replay the provider calls of every client
+ * @param options Fixture file and mode - replay throws if the file cannot be read
+ */
+export function useCassette(options: CassetteOptions): void {
+    let interactions: CassetteInteraction[] = [];
+    if (options.mode === 'replay') {
+        try {
+            interactions = JSON.parse(readFileSync(options.path, 'utf8')).interactions;
+        } catch (error: any) {
+            throw new Error(`Failed to load cassette ${options.path}: ${error.message}`);
+        }
+    }
+    cassette = { options, interactions, replayed: {}, writing: Promise.resolve() };
+}
+
+// Stop recording or replaying, waiting until the recording is written
+export async function ejectCassette(): Promise<void> {
+    const current = cassette;
+    cassette = undefined;
+    await current?.writing;
+}
+
+// The adapter of a provider as seen through the active cassette - when replaying, only created to replay HTTP exchanges
+export function withCassette(registration: ProviderRegistration, createAdapter: () => ProviderAdapter): ProviderAdapter {
+    if (!cassette) {
+        return createAdapter();
+    }
+    return cassette.options.mode === 'replay'
+        ? replayAdapter(cassette, registration)
+        : recordingAdapter(cassette, registration.name, createAdapter());
+}
+
+/**
+ * axios config that records or replays a request in the active cassette
+ * Adapters that make several HTTP calls per adapter call, like Kling's polling, spread it into each axios config
+ */
+export function cassetteHttp(): Pick<AxiosRequestConfig, 'adapter'> {
+    return httpScope.getStore() ? { adapter: cassetteAxiosAdapter } : {};
+}
+
+// Delay between polls, skipped when replaying a cassette
+export function pollDelay(ms: number): number {
+    return httpScope.getStore()?.mode === 'replay' ? 0 : ms;
+}
+
+const cassetteAxiosAdapter: AxiosAdapter = async (config) => {
+    const scope = httpScope.getStore()!;
+    const method = (config.method || 'get').toUpperCase();
+    const url = config.url || '';
+
+    if (scope.mode === 'replay') {
+        const exchange = scope.exchanges.shift();
+        if (!exchange || exchange.method !== method || exchange.url !== url) {
+            throw new LLMError(`No recorded ${method} ${url} in cassette ${cassette?.options.path}. Record the cassette again.`, 'cassette', 'CASSETTE_MISS');
+        }
+        if (exchange.status === undefined) {
+            throw new AxiosError(exchange.error, AxiosError.ERR_NETWORK, config);
+        }
+        const response: AxiosResponse = {
+            data: exchange.encoding === 'base64' ? Buffer.from(exchange.data, 'base64') : exchange.data,
+            status: exchange.status,
+            statusText: '',
+            headers: exchange.headers || {},
+            config,
+            request: {}
+        };
+        if (config.validateStatus && !config.validateStatus(response.status)) {
+            throw new AxiosError(`Request failed with status code ${response.status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+        }
+        return response;
+    }
+
+    const record = (response: AxiosResponse | undefined, error?: any) => {
+        const headers = response ? Object.fromEntries(
+            RECORDED_HEADERS.filter(name => response.headers?.[name] !== undefined).map(name => [name, String(response.headers[name])])
+        ) : undefined;
+        const binary = Buffer.isBuffer(response?.data);
+        scope.exchanges.push({
+            method,
+            url,
+            status: response?.status,
+            headers,
+            data: binary ? response!.data.toString('base64') : response?.data,
+            encoding: binary ? 'base64' : undefined,
+            error: response ? undefined : error?.message
+        });
+    };
+    try {
+        const response = await axios.defaults.adapter!(config);
+        record(response);
+        return response;
+    } catch (error: any) {
+        record(error?.response, error);
+        throw error;
+    }
+};
+
+function textRequest(model: string, system: string, messages: any[], maxTokens?: number, temperature?: number, options: AdapterTextOptions = {}) {
+    const { signal, ...rest } = options;
+    // Round-tripped so the request is compared in the form it is saved, e.g. without tool handlers
+    return JSON.parse(JSON.stringify({ model, system, messages, maxTokens, temperature, options: rest }));
+}
+
+function imageRequest(options: ImageGenerationOptions) {
+    const { signal, ...rest } = options;
+    return JSON.parse(JSON.stringify(rest));
+}
+
+function countRequest(model: string, system: string, messages: any[]) {
+    return JSON.parse(JSON.stringify({ model, system, messages }));
+}
+
+function interactionOf(provider: LLMProvider, method: CassetteInteraction['method'], request: any): CassetteInteraction {
+    return { key: responseCacheKey({ provider, method, request }), provider, method, request };
+}
+
+function recordedError(error: any): CassetteInteraction['error'] {
+    return {
+        message: error?.message || String(error),
+        code: error?.code,
+        statusCode: error?.statusCode,
+        retryAfterMs: error?.retryAfterMs
+    };
+}
+
+function recordingAdapter(cassette: Cassette, provider: LLMProvider, adapter: ProviderAdapter): ProviderAdapter {
+    const record = (interaction: CassetteInteraction) => {
+        cassette.interactions.push(interaction);
+        // Writes are chained so the file always holds the latest complete recording
+        const file = cassette.options.path;
+        const json = JSON.stringify({ interactions: cassette.interactions }, undefined, 2);
+        cassette.writing = cassette.writing
+            .then(() => fs.mkdir(path.dirname(file), { recursive: true }))
+            .then(() => fs.writeFile(file, json))
+            .catch(error => {
+                console.warn(`[LLM-WARN] Failed to write cassette ${file}: ${error.message}`);
+            });
+    };
+
+    return {
+        generateText: adapter.generateText && (async (model, system, messages, maxTokens, temperature, options) => {
+            const interaction = interactionOf(provider, 'generateText', textRequest(model, system, messages, maxTokens, temperature, options));
+            try {
+                const response = await adapter.generateText!(model, system, messages, maxTokens, temperature, options);
+                record({ ...interaction, response });
+                return response;
+            } catch (error) {
+                record({ ...interaction, error: recordedError(error) });
+                throw error;
+            }
+        }),
+        generateStream: adapter.generateStream && (async function* (model, system, messages, maxTokens, temperature, options) {
+            const interaction = interactionOf(provider, 'generateStream', textRequest(model, system, messages, maxTokens, temperature, options));
+            const chunks: StreamChunk[] = [];
+            // Streams the caller stopped reading or aborted are not recorded - replaying them would cut the stream short
+            try {
+                for await (const chunk of adapter.generateStream!(model, system, messages, maxTokens, temperature, options)) {
+                    chunks.push(chunk);
+                    yield chunk;
+                }
+            } catch (error) {
+                if (!options?.signal?.aborted) {
+                    record({ ...interaction, chunks, error: recordedError(error) });
+                }
+                throw error;
+            }
+            record({ ...interaction, chunks });
+        }),
+        generateImage: adapter.generateImage && (async (options) => {
+            // HTTP calls made through cassetteHttp, like Kling's polling, are recorded with the result
+            const interaction = interactionOf(provider, 'generateImage', imageRequest(options));
+            const exchanges: CassetteExchange[] = [];
+            const withExchanges = () => exchanges.length > 0 ? { exchanges } : {};
+            try {
+                const response = await httpScope.run({ mode: 'record', exchanges }, () => adapter.generateImage!(options));
+                record({ ...interaction, ...withExchanges(), response });
+                return response;
+            } catch (error) {
+                record({ ...interaction, ...withExchanges(), error: recordedError(error) });
+                throw error;
+            }
+        }),
+        countTokens: adapter.countTokens && (async (model, system, messages, signal) => {
+            const interaction = interactionOf(provider, 'countTokens', countRequest(model, system, messages));
+            try {
+                const response = await adapter.countTokens!(model, system, messages, signal);
+                record({ ...interaction, response });
+                return response;
+            } catch (error) {
+                record({ ...interaction, error: recordedError(error) });
+                throw error;
+            }
+        })
+    };
+}
+
+// Adapter that replays recorded HTTP exchanges - nothing is sent, so placeholder credentials do
+function placeholderAdapter(registration: ProviderRegistration): ProviderAdapter {
+    if (typeof registration.adapter !== 'function') {
+        return registration.adapter;
+    }
+    const env = registration.credentialEnv;
+    return registration.adapter(typeof env === 'object'
+        ? Object.fromEntries(Object.keys(env).map(field => [field, 'cassette']))
+        : 'cassette');
+}
+
+function replayAdapter(cassette: Cassette, registration: ProviderRegistration): ProviderAdapter {
+    const provider = registration.name;
+    let adapter: ProviderAdapter | undefined;
+
+    // Identical calls are replayed in recorded order, the last recording repeats once they run out
+    const replay = (interaction: CassetteInteraction, model: string): CassetteInteraction => {
+        const matches = cassette.interactions.filter(recorded => recorded.key === interaction.key);
+        if (matches.length === 0) {
+            throw new LLMError(
+                `No recorded ${interaction.method} call of ${provider} (${model}) matches the request in cassette ${cassette.options.path}. Record the cassette again.`,
+                provider,
+                'CASSETTE_MISS'
+            );
+        }
+        const count = cassette.replayed[interaction.key] || 0;
+        cassette.replayed[interaction.key] = count + 1;
+        return JSON.parse(JSON.stringify(matches[Math.min(count, matches.length - 1)]));
+    };
+
+    const replayError = (error: NonNullable<CassetteInteraction['error']>) =>
+        new LLMError(error.message, provider, error.code, error.statusCode, error.retryAfterMs);
+
+    return {
+        generateText: async (model, system, messages, maxTokens, temperature, options) => {
+            const recorded = replay(interactionOf(provider, 'generateText', textRequest(model, system, messages, maxTokens, temperature, options)), model);
+            if (recorded.error) {
+                throw replayError(recorded.error);
+            }
+            return recorded.response as AdapterResponse;
+        },
+        generateStream: async function* (model, system, messages, maxTokens, temperature, options) {
+            const recorded = replay(interactionOf(provider, 'generateStream', textRequest(model, system, messages, maxTokens, temperature, options)), model);
+            yield* recorded.chunks || [];
+            if (recorded.error) {
+                throw replayError(recorded.error);
+            }
+        },
+        generateImage: async (options) => {
+            const recorded = replay(interactionOf(provider, 'generateImage', imageRequest(options)), options.model);
+            // Recorded HTTP exchanges are played back through the adapter, so its polling runs again
+            if (recorded.exchanges) {
+                adapter = adapter || placeholderAdapter(registration);
+                return httpScope.run({ mode: 'replay', exchanges: recorded.exchanges }, () => adapter!.generateImage!(options));
+            }
+            if (recorded.error) {
+                throw replayError(recorded.error);
+            }
+            return recorded.response as AdapterImageResponse;
+        },
+        // Only providers with recorded counts, the others fall back to the local estimate as when recording
+        countTokens: cassette.interactions.some(recorded => recorded.provider === provider && recorded.method === 'countTokens')
+            ? async (model, system, messages) => {
+                const recorded = replay(interactionOf(provider, 'countTokens', countRequest(model, system, messages)), model);
+                if (recorded.error) {
+                    throw replayError(recorded.error);
+                }
+                return recorded.response as number;
+            }
+            : undefined
+    };
+}
@@ -0,0 +1,792 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    configureCircuitBreaker, createLLMClient, generateImage, getProviderHealth, generateStream, generateStructuredData, generateStructuredStream, generateText, getMockCalls, LLMTracking,
+    registerProvider, registerTrackingSink, resetMock, resetProviderHealth, setMockResponses, unregisterProvider, unregisterTrackingSink
+} from '../index';
+import { MockAdapter } from '../adapters/mock';
+import { getProvider } from './registry';
+import { clearResponseCache, configureResponseCache, memoryCacheStore } from './cache';
+
+const request = {
+    model: { mock: 'structured' },
+    system: 'Reply with JSON.',
+    messages: [{ role: 'user' as const, content: 'List the panels' }],
+    schema: { type: 'object', properties: { panels: { type: 'array', items: { type: 'string' } } } },
+    fallbackOrder: ['mock'],
+    retryPolicy: { initialDelayMs: 1, jitter: false },
+    errorLevel: 'error' as const
+};
+
+async function collect(stream: AsyncIterable<any>): Promise<any[]> {
+    const events: any[] = [];
+    for await (const event of stream) {
+        events.push(event);
+    }
+    return events;
+}
+
+// Tracking records written since the last reset, sinks receive them asynchronously
+let trackingRecords: LLMTracking[] = [];
+
+async function tracked(): Promise<LLMTracking[]> {
+    await new Promise(resolve => setImmediate(resolve));
+    return trackingRecords;
+}
+
+beforeAll(() => {
+    unregisterTrackingSink('console');
+    registerTrackingSink('test', record => {
+        trackingRecords.push(record);
+    });
+});
+
+afterAll(() => {
+    unregisterTrackingSink('test');
+});
+
+beforeEach(() => {
+    resetMock();
+    resetProviderHealth();
+    trackingRecords = [];
+});
+
+describe('generateStructuredStream', () => {
+    it('streams partial data and array elements before the final data', async () => {
+        setMockResponses('structured', { chunks: ['{"panels": ["a"', ', "b"', ']}'] });
+
+        const events = await collect(generateStructuredStream(request));
+
+        expect(events[0]).toMatchObject({ type: 'start', provider: 'mock', model: 'structured' });
+        expect(events.filter(event => event.type === 'partial').map(event => event.data)).toContainEqual({ panels: ['a'] });
+        expect(events.filter(event => event.type === 'element').map(event => event.value)).toEqual(['a', 'b']);
+        expect(events[events.length - 1].data).toEqual({ panels: ['a', 'b'] });
+    });
+
+    it('retries a failed attempt on the same provider before anything is yielded', async () => {
+        setMockResponses('structured', [{ error: 'server_error' }, { data: { panels: ['a'] } }]);
+
+        const events = await collect(generateStructuredStream({ ...request, retry: 1 }));
+
+        expect(getMockCalls()).toHaveLength(2);
+        expect(events[events.length - 1]).toMatchObject({ type: 'done', data: { panels: ['a'] } });
+    });
+
+    it('retries a reply that is not valid JSON', async () => {
+        setMockResponses('structured', [{ text: 'Sorry, no JSON' }, { data: { panels: [] } }]);
+
+        const events = await collect(generateStructuredStream({ ...request, retry: 1 }));
+
+        expect(getMockCalls()).toHaveLength(2);
+        expect(events[events.length - 1]).toMatchObject({ type: 'done', data: { panels: [] } });
+    });
+
+    it('does not restart a stream once partial data was yielded', async () => {
+        setMockResponses('structured', [
+            { chunks: ['{"panels": ["a"', ', "b"', ']}'], error: 'disconnect', failAfterChunks: 2 },
+            { data: { panels: ['c'] } }
+        ]);
+
+        const events = await collect(generateStructuredStream({ ...request, retry: 1 }));
+
+        expect(getMockCalls()).toHaveLength(1);
+        expect(events.some(event => event.type === 'partial')).toBe(true);
+        expect(events[events.length - 1].type).toBe('error');
+    });
+});
+
+describe('generateStructuredData', () => {
+    const validate = { type: 'object', properties: { panels: { type: 'array', minItems: 1 } }, required: ['panels'] };
+
+    it('sends validation errors back for repair', async () => {
+        setMockResponses('structured', [{ data: { panels: [] } }, { data: { panels: ['a'] } }]);
+
+        const response = await generateStructuredData({ ...request, validate });
+
+        expect(response.data).toEqual({ panels: ['a'] });
+        const calls = getMockCalls();
+        expect(calls).toHaveLength(2);
+        expect(JSON.stringify(calls[1].messages)).toContain('$.panels: must have at least 1 items');
+    });
+
+    it('fails once the repair attempts are used up', async () => {
+        setMockResponses('structured', { data: { panels: [] } });
+
+        await expect(generateStructuredData({ ...request, validate, maxRepairAttempts: 1 })).rejects.toThrow();
+        expect(getMockCalls()).toHaveLength(2);
+    });
+});
+
+describe('retries', () => {
+    const textRequest = { ...request, model: { mock: 'flaky' } };
+
+    it('waits for Retry-After before retrying the same provider', async () => {
+        setMockResponses('flaky', [{ error: 'rate_limit', retryAfterMs: 50 }, { text: 'Recovered' }]);
+
+        const started = Date.now();
+        const response = await generateText({ ...textRequest, retry: 1 });
+
+        expect(response.text).toBe('Recovered');
+        expect(getMockCalls()).toHaveLength(2);
+        expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    });
+
+    it('does not wait for a Retry-After above maxRetryAfterMs', async () => {
+        setMockResponses('flaky', [{ error: 'rate_limit', retryAfterMs: 60000 }, { text: 'Recovered' }]);
+
+        await expect(generateText({ ...textRequest, retry: 1, retryPolicy: { maxRetryAfterMs: 1000 } })).rejects.toThrow('Rate limit exceeded');
+        expect(getMockCalls()).toHaveLength(1);
+    });
+
+    it('retries a stream that failed before anything was yielded', async () => {
+        setMockResponses('flaky', [{ error: 'rate_limit', retryAfterMs: 10 }, { text: 'Recovered' }]);
+
+        const events = await collect(generateStream({ ...textRequest, retry: 1 }));
+
+        expect(getMockCalls()).toHaveLength(2);
+        expect(events.filter(event => event.type === 'delta').map(event => event.text).join('')).toBe('Recovered');
+        expect(events[events.length - 1].type).toBe('done');
+        expect((await tracked()).map(record => record.retry_count)).toEqual([1]);
+    });
+
+    it('does not retry a stream once text was yielded', async () => {
+        setMockResponses('flaky', [{ text: 'One two three four', error: 'disconnect', failAfterChunks: 2 }, { text: 'Recovered' }]);
+
+        const events = await collect(generateStream({ ...textRequest, retry: 1 }));
+
+        expect(getMockCalls()).toHaveLength(1);
+        expect(events[events.length - 1].type).toBe('error');
+        expect((await tracked()).map(record => record.retry_count)).toEqual([0]);
+    });
+
+    it('uses the retries of the provider position in fallbackOrder', async () => {
+        setMockResponses('flaky', { error: 'server_error' });
+
+        await expect(generateText({ ...textRequest, retry: [2] })).rejects.toThrow('Internal server error');
+        expect(getMockCalls()).toHaveLength(3);
+    });
+});
+
+describe('strict schema nulls', () => {
+    it('removes the nulls of optional properties from structured data', async () => {
+        setMockResponses('structured', { data: { title: 'Night Shift', subtitle: null } });
+        const schema = { type: 'object', properties: { title: { type: 'string' }, subtitle: { type: 'string' } }, required: ['title'] };
+
+        const response = await generateStructuredData({ ...request, schema, validate: schema });
+
+        expect(response.data).toEqual({ title: 'Night Shift' });
+    });
+});
+
+describe('circuit breaker', () => {
+    const fallbackRequest = {
+        ...request,
+        model: { mock: 'primary', backup: 'backup' },
+        fallbackOrder: ['mock', 'backup']
+    };
+
+    beforeAll(() => {
+        registerProvider('backup', () => new MockAdapter());
+    });
+
+    afterAll(() => {
+        unregisterProvider('backup');
+        configureCircuitBreaker({ minRequests: 5, cooldownMs: 30000 });
+    });
+
+    beforeEach(async () => {
+        configureCircuitBreaker({ minRequests: 2, cooldownMs: 50 });
+        setMockResponses('primary', { error: 'server_error' });
+        await generateText(fallbackRequest);
+        await generateText(fallbackRequest);
+        resetMock();
+    });
+
+    it('skips a provider with an open circuit', async () => {
+        const response = await generateText(fallbackRequest);
+
+        expect(response.provider).toBe('backup');
+        expect(getMockCalls().map(call => call.model)).toEqual(['backup']);
+    });
+
+    it('sends a single probe through a half-open circuit', async () => {
+        await new Promise(resolve => setTimeout(resolve, 60));
+        setMockResponses('primary', { text: 'Back up', latencyMs: 20 });
+
+        const responses = await Promise.all([generateText(fallbackRequest), generateText(fallbackRequest)]);
+
+        expect(responses.map(response => response.provider).sort()).toEqual(['backup', 'mock']);
+        const response = await generateText(fallbackRequest);
+        expect(response.provider).toBe('mock');
+    });
+    it('keeps the probe free when a half-open provider is not tried', async () => {
+        await new Promise(resolve => setTimeout(resolve, 60));
+        setMockResponses('primary', { text: 'Back up' });
+
+        const answeredFirst = await generateText({ ...fallbackRequest, fallbackOrder: ['backup', 'mock'] });
+        const probe = await generateText(fallbackRequest);
+
+        expect([answeredFirst.provider, probe.provider]).toEqual(['backup', 'mock']);
+    });
+});
+
+describe('response cache', () => {
+    const textRequest = { ...request, model: { mock: 'cached' }, temperature: 0 };
+    const validate = { type: 'object', properties: { panels: { type: 'array', minItems: 1 } }, required: ['panels'] };
+
+    beforeAll(() => {
+        configureResponseCache({ store: memoryCacheStore() });
+    });
+
+    afterAll(() => {
+        configureResponseCache({ store: undefined });
+    });
+
+    beforeEach(async () => {
+        await clearResponseCache();
+    });
+
+    it('answers an identical request from the cache', async () => {
+        setMockResponses('cached', [{ text: 'First' }, { text: 'Second' }]);
+
+        await generateText(textRequest);
+        const response = await generateText(textRequest);
+
+        expect(response).toMatchObject({ text: 'First', cached: true });
+        expect(getMockCalls()).toHaveLength(1);
+        expect((await tracked())[1]).toMatchObject({ cache_hit: true, itoken: 0, otoken: 0 });
+    });
+
+    it('keys generated images on the content of their reference images', async () => {
+        const gif = Buffer.from('R0lGODlhAQABAIAAAP///wAAACH5BAEAAAAALAAAAAABAAEAAAICRAEAOw==', 'base64');
+        const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'cache-')), 'reference.gif');
+        await fs.writeFile(file, gif);
+        const imageRequest = { model: { mock: 'image' }, prompt: 'A comic panel', fallbackOrder: ['mock'], errorLevel: 'error' as const };
+
+        await generateImage({ ...imageRequest, referenceImage: gif });
+        const fromFile = await generateImage({ ...imageRequest, referenceImage: { path: file } });
+        const fromOtherImage = await generateImage({ ...imageRequest, referenceImage: Buffer.concat([gif, Buffer.from([0])]) });
+
+        expect(fromFile.cached).toBe(true);
+        expect(fromOtherImage.cached).toBeFalsy();
+        expect(getMockCalls()).toHaveLength(2);
+    });
+
+    it('skips the cache for cache: false and for other requests', async () => {
+        setMockResponses('cached', [{ text: 'First' }, { text: 'Second' }, { text: 'Third' }]);
+
+        await generateText(textRequest);
+        expect((await generateText({ ...textRequest, cache: false })).text).toBe('Second');
+        expect((await generateText({ ...textRequest, temperature: 0.5 })).text).toBe('Third');
+    });
+
+    it('does not cache structured data that failed validation', async () => {
+        setMockResponses('cached', [{ data: { panels: [] } }, { data: { panels: ['a'] } }, { data: { panels: ['b'] } }]);
+
+        const first = await generateStructuredData({ ...request, ...textRequest, validate });
+        const second = await generateStructuredData({ ...request, ...textRequest, validate });
+
+        expect(first.data).toEqual({ panels: ['a'] });
+        expect(second).toMatchObject({ data: { panels: ['a'] }, cached: true });
+        expect(getMockCalls()).toHaveLength(2);
+    });
+
+    it('does not cache structured data that failed to parse', async () => {
+        setMockResponses('cached', [{ text: 'Not JSON' }, { data: { panels: ['a'] } }]);
+
+        await expect(generateStructuredData({ ...request, ...textRequest, retry: 0 })).rejects.toThrow();
+        expect((await generateStructuredData({ ...request, ...textRequest, retry: 0 })).data).toEqual({ panels: ['a'] });
+    });
+});
+
+describe('image input', () => {
+    it('rejects an invalid image before any provider is tried', async () => {
+        const messages = [{ role: 'user' as const, content: [{ type: 'image' as const, image: 'not an image' }] }];
+
+        await expect(generateText({ ...request, messages, retry: 2 })).rejects.toMatchObject({ code: 'INVALID_IMAGE' });
+        expect(getMockCalls()).toHaveLength(0);
+
+        const events = await collect(generateStream({ ...request, messages }));
+        expect(events).toEqual([expect.objectContaining({ type: 'error', error: expect.objectContaining({ code: 'INVALID_IMAGE' }) })]);
+        expect(getMockCalls()).toHaveLength(0);
+    });
+
+    it('sends image parts labeled with their detected format', async () => {
+        const gif = Buffer.from('R0lGODlhAQABAIAAAP///wAAACH5BAEAAAAALAAAAAABAAEAAAICRAEAOw==', 'base64');
+        const messages = [{ role: 'user' as const, content: [{ type: 'image' as const, image: gif }] }];
+
+        await generateText({ ...request, messages });
+
+        expect(getMockCalls()[0].messages![0].content).toEqual([{ type: 'image', image: gif.toString('base64'), mimeType: 'image/gif' }]);
+    });
+});
+
+describe('sampling', () => {
+    const samplingRequest = {
+        ...request,
+        model: { limited: 'limited', mock: 'full' },
+        fallbackOrder: ['limited', 'mock'],
+        sampling: { topP: 0.9, seed: 7 }
+    };
+
+    beforeAll(() => {
+        registerProvider('limited', () => new MockAdapter(), { samplingParameters: ['topP'] });
+    });
+
+    afterAll(() => {
+        unregisterProvider('limited');
+    });
+
+    it('passes the parameters a provider supports and leaves out the others', async () => {
+        await generateText(samplingRequest);
+        await generateText({ ...samplingRequest, fallbackOrder: ['mock'] });
+
+        expect(getMockCalls().map(call => call.options?.sampling)).toEqual([{ topP: 0.9 }, { topP: 0.9, seed: 7 }]);
+    });
+
+    it('skips providers without every parameter with strictSampling', async () => {
+        const response = await generateText({ ...samplingRequest, strictSampling: true });
+
+        expect(response.provider).toBe('mock');
+        expect(getMockCalls().map(call => call.model)).toEqual(['full']);
+        await expect(generateText({ ...samplingRequest, fallbackOrder: ['limited'], strictSampling: true }))
+            .rejects.toMatchObject({ code: 'UNSUPPORTED_PARAMETER' });
+    });
+});
+
+describe('reasoning', () => {
+    const reasoningRequest = {
+        ...request,
+        model: { thinking: 'always-thinks', mock: 'thinks' },
+        fallbackOrder: ['thinking', 'mock'],
+        reasoning: 'off' as const
+    };
+
+    beforeAll(() => {
+        registerProvider('thinking', () => new MockAdapter(), { supportsReasoning: (_model, reasoning) => reasoning !== 'off' });
+    });
+
+    afterAll(() => {
+        unregisterProvider('thinking');
+    });
+
+    it('returns thinking separately from the answer', async () => {
+        setMockResponses('thinks', [{ thinking: 'Check 7, 11, 13.', text: 'No.' }, { thinking: 'Check 7.', chunks: ['No', '.'] }]);
+
+        const response = await generateText({ ...request, model: { mock: 'thinks' }, reasoning: 'low' });
+        const events = await collect(generateStream({ ...request, model: { mock: 'thinks' }, reasoning: 'low' }));
+
+        expect(response).toMatchObject({ thinking: 'Check 7, 11, 13.', text: 'No.' });
+        expect(response.usage!.thinkingTokens).toBeGreaterThan(0);
+        expect(events.filter(event => event.type === 'thinking').map(event => event.thinking).join('')).toBe('Check 7.');
+        expect(getMockCalls().map(call => call.options?.reasoning)).toEqual(['low', 'low']);
+    });
+
+    it('leaves out reasoning for models that do not take it', async () => {
+        await generateText(reasoningRequest);
+        await generateText({ ...reasoningRequest, reasoning: 'high' });
+
+        expect(getMockCalls().map(call => [call.model, call.options?.reasoning])).toEqual([['always-thinks', undefined], ['always-thinks', 'high']]);
+    });
+
+    it('skips providers whose model does not take reasoning with strictSampling', async () => {
+        const response = await generateText({ ...reasoningRequest, strictSampling: true });
+
+        expect(response.provider).toBe('mock');
+        await expect(generateText({ ...reasoningRequest, fallbackOrder: ['thinking'], strictSampling: true }))
+            .rejects.toMatchObject({ code: 'UNSUPPORTED_PARAMETER' });
+    });
+
+    it('knows the built-in models that do not take reasoning', () => {
+        const google = getProvider('google')!.supportsReasoning!;
+        const xai = getProvider('xai')!.supportsReasoning!;
+
+        expect([google('gemini-2.5-pro', 'off'), google('gemini-2.5-pro', 'low'), google('gemini-2.5-flash', 'off')]).toEqual([false, true, true]);
+        expect([xai('grok-4', 'high'), xai('grok-4-fast-reasoning', 'low'), xai('grok-3-mini', 'low')]).toEqual([false, false, true]);
+    });
+});
+
+describe('tool calling', () => {
+    const lookup = { id: 'call_1', name: 'get_title', arguments: { titleId: 't1' } };
+    const toolRequest = {
+        ...request,
+        model: { mock: 'tools' },
+        messages: [{ role: 'user' as const, content: 'What is t1 called?' }],
+        tools: [{
+            name: 'get_title',
+            parameters: { type: 'object', properties: { titleId: { type: 'string' } } },
+            handler: async ({ titleId }: { titleId: string }) => {
+                if (titleId !== 't1') throw new Error(`Unknown title ${titleId}`);
+                return { name: 'Night Shift' };
+            }
+        }]
+    };
+
+    it('returns tool calls for the caller to handle', async () => {
+        setMockResponses('tools', { toolCalls: [lookup] });
+
+        const response = await generateText(toolRequest);
+
+        expect(response).toMatchObject({ toolCalls: [lookup], finishReason: 'tool_call', messages: undefined });
+        expect(getMockCalls()[0].options?.tools?.map(tool => tool.name)).toEqual(['get_title']);
+    });
+
+    it('runs the handlers and sends the results back with autoExecuteTools', async () => {
+        setMockResponses('tools', [{ toolCalls: [lookup, { ...lookup, id: 'call_2', arguments: { titleId: 't2' } }] }, { text: 'It is Night Shift.' }]);
+
+        const response = await generateText({ ...toolRequest, autoExecuteTools: true });
+
+        expect(response).toMatchObject({ text: 'It is Night Shift.', finishReason: 'stop' });
+        expect(getMockCalls()[1].messages!.slice(1)).toEqual([
+            { role: 'assistant', content: [{ type: 'tool_call', toolCall: lookup }, { type: 'tool_call', toolCall: { ...lookup, id: 'call_2', arguments: { titleId: 't2' } } }] },
+            { role: 'user', content: [
+                { type: 'tool_result', toolResult: { id: 'call_1', name: 'get_title', content: '{"name":"Night Shift"}' } },
+                { type: 'tool_result', toolResult: { id: 'call_2', name: 'get_title', content: 'Unknown title t2', isError: true } }
+            ] }
+        ]);
+        expect(response.messages).toEqual([...toolRequest.messages, ...getMockCalls()[1].messages!.slice(1)]);
+    });
+
+    it('stops after maxToolRounds and leaves the last calls to the caller', async () => {
+        setMockResponses('tools', { toolCalls: [lookup] });
+
+        const response = await generateText({ ...toolRequest, autoExecuteTools: true, maxToolRounds: 2 });
+
+        expect(getMockCalls()).toHaveLength(3);
+        expect(response.toolCalls).toEqual([lookup]);
+    });
+
+    it('yields tool calls as a stream event', async () => {
+        setMockResponses('tools', [{ chunks: ['Checking.'], toolCalls: [lookup] }, { chunks: ['Night Shift.'] }]);
+
+        const events = await collect(generateStream({ ...toolRequest, autoExecuteTools: true }));
+
+        expect(events.filter(event => event.type !== 'usage').map(event => event.type)).toEqual(['start', 'delta', 'tool_calls', 'delta', 'done']);
+        expect(events.find(event => event.type === 'tool_calls').toolCalls).toEqual([lookup]);
+    });
+});
+
+describe('createLLMClient', () => {
+    let credentials: unknown[] = [];
+
+    beforeAll(() => {
+        registerProvider('tenant', (credential) => {
+            credentials.push(credential);
+            return new MockAdapter();
+        }, { credentialEnv: 'TENANT_API_KEY' });
+    });
+
+    afterAll(() => {
+        unregisterProvider('tenant');
+    });
+
+    beforeEach(() => {
+        credentials = [];
+    });
+
+    const tenantRequest = { ...request, model: { tenant: 'tenant', mock: 'shared' }, fallbackOrder: ['tenant', 'mock'] };
+
+    it('keeps the credentials of each client apart', async () => {
+        const first = createLLMClient({ credentials: { tenant: 'key-a' } });
+        const second = createLLMClient({ credentials: { tenant: 'key-b' } });
+
+        await first.generateText(tenantRequest);
+        await second.generateText(tenantRequest);
+        await first.generateText(tenantRequest);
+
+        expect(credentials).toEqual(['key-a', 'key-b']);
+    });
+
+    it('skips providers without credentials', async () => {
+        const client = createLLMClient({ useEnv: false });
+
+        const response = await client.generateText(tenantRequest);
+
+        expect(response.provider).toBe('mock');
+        await expect(client.generateText({ ...tenantRequest, fallbackOrder: ['tenant'] })).rejects.toMatchObject({ code: 'MISSING_API_KEY' });
+    });
+
+    it('reads the credentials again after resetAdapters', async () => {
+        const config = { credentials: { tenant: 'old-key' } };
+        const client = createLLMClient(config);
+        await client.generateText(tenantRequest);
+
+        config.credentials.tenant = 'new-key';
+        client.resetAdapters();
+        await client.generateText(tenantRequest);
+
+        expect(credentials).toEqual(['old-key', 'new-key']);
+    });
+
+    it('applies its defaults, fallback order and default models to requests', async () => {
+        const client = createLLMClient({
+            defaults: { errorLevel: 'error', metadata: { team: 'recaps' } },
+            fallbackOrder: ['mock'],
+            modelDefaults: { text: { mock: 'client-default' } }
+        });
+
+        await client.generateText({ system: '', messages: request.messages, model: {}, metadata: { episode: 3 } });
+
+        expect(getMockCalls()[0].model).toBe('client-default');
+        expect((await tracked())[0].metadata).toEqual({ team: 'recaps', episode: 3 });
+    });
+});
+
+describe('abort and timeout', () => {
+    const slowRequest = {
+        ...request,
+        model: { mock: 'slow', backup: 'backup' },
+        fallbackOrder: ['mock', 'backup']
+    };
+
+    beforeAll(() => {
+        registerProvider('backup', () => new MockAdapter());
+    });
+
+    afterAll(() => {
+        unregisterProvider('backup');
+    });
+
+    beforeEach(() => {
+        setMockResponses('slow', { text: 'Too late', latencyMs: 1000 });
+    });
+
+    it('stops the request and its fallback when the signal aborts', async () => {
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+
+        await expect(generateText({ ...slowRequest, signal: controller.signal })).rejects.toMatchObject({ code: 'ABORTED' });
+        expect(getMockCalls().map(call => call.model)).toEqual(['slow']);
+        expect(getProviderHealth('mock')).toEqual([]);
+    });
+
+    it('does not start a request whose signal has already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(generateText({ ...slowRequest, signal: controller.signal })).rejects.toMatchObject({ code: 'ABORTED' });
+        expect(getMockCalls()).toHaveLength(0);
+    });
+
+    it('falls back when an attempt times out and counts it as a failure', async () => {
+        const response = await generateText({ ...slowRequest, retry: 0, attemptTimeoutMs: 20 });
+
+        expect(response.provider).toBe('backup');
+        expect(getProviderHealth('mock')[0]).toMatchObject({ failures: 1, lastError: 'Timed out after 20ms' });
+    });
+
+    it('fails with TIMEOUT once the overall time limit has passed', async () => {
+        await expect(generateText({ ...slowRequest, timeoutMs: 20 })).rejects.toMatchObject({ code: 'TIMEOUT' });
+        expect(getMockCalls().map(call => call.model)).toEqual(['slow']);
+    });
+
+    it('aborts the upstream stream when the caller stops reading', async () => {
+        let upstream: AbortSignal | undefined;
+        registerProvider('backup', {
+            generateStream: async function* (_model, _system, _messages, _maxTokens, _temperature, options) {
+                upstream = options?.signal;
+                yield { type: 'text', text: 'First' };
+                yield { type: 'text', text: 'Second' };
+            }
+        });
+
+        for await (const event of generateStream({ ...slowRequest, fallbackOrder: ['backup'] })) {
+            if (event.type === 'delta') break;
+        }
+
+        expect(upstream?.aborted).toBe(true);
+    });
+});
+
+describe('usage and finish reason', () => {
+    const textRequest = { ...request, model: { mock: 'usage' } };
+
+    it('reports the usage and finish reason of a reply', async () => {
+        setMockResponses('usage', { text: 'Cut', usage: { itoken: 10, otoken: 5, ttoken: 3, ctoken: 4 }, finishReason: 'length' });
+
+        const response = await generateText(textRequest);
+
+        expect(response.usage).toEqual({ promptTokens: 10, completionTokens: 5, thinkingTokens: 3, cachedTokens: 4, totalTokens: 18 });
+        expect(response.finishReason).toBe('length');
+        expect((await tracked())[0]).toMatchObject({ itoken: 10, otoken: 5, ttoken: 3 });
+    });
+
+    it('sums the usage of structured data retries', async () => {
+        setMockResponses('structured', [
+            { text: 'not json', usage: { itoken: 10, otoken: 2 } },
+            { data: { panels: ['a'] }, usage: { itoken: 10, otoken: 6 } }
+        ]);
+
+        const response = await generateStructuredData(request);
+
+        expect(response.usage).toMatchObject({ promptTokens: 20, completionTokens: 8, totalTokens: 28 });
+        expect(response.finishReason).toBe('stop');
+    });
+
+    it('ends a stream with the usage and finish reason', async () => {
+        setMockResponses('usage', { chunks: ['Hello', ' there'], usage: { itoken: 7, otoken: 2 }, finishReason: 'content_filter' });
+
+        const events = await collect(generateStream(textRequest));
+
+        expect(events.filter(event => event.type === 'usage').pop().usage).toMatchObject({ promptTokens: 7, completionTokens: 2 });
+        expect(events[events.length - 1]).toMatchObject({
+            type: 'done',
+            finishReason: 'content_filter',
+            usage: { promptTokens: 7, completionTokens: 2, thinkingTokens: 0, cachedTokens: 0, totalTokens: 9 }
+        });
+    });
+});
+
+describe('autoContinue', () => {
+    const longRequest = { ...request, model: { mock: 'long' }, autoContinue: true };
+
+    it('asks for the rest of a reply cut off at the token limit and joins the parts', async () => {
+        setMockResponses('long', [
+            { text: 'Once upon', finishReason: 'length', usage: { itoken: 10, otoken: 3 } },
+            { text: ' a time.', usage: { itoken: 20, otoken: 3 } }
+        ]);
+
+        const response = await generateText(longRequest);
+
+        expect(response).toMatchObject({ text: 'Once upon a time.', finishReason: 'stop' });
+        expect(response.usage).toMatchObject({ promptTokens: 30, completionTokens: 6 });
+        expect(getMockCalls()[1].messages!.slice(-2)).toEqual([
+            { role: 'assistant', content: 'Once upon' },
+            { role: 'user', content: expect.stringContaining('Continue exactly where it stopped') }
+        ]);
+        expect((await tracked())[0]).toMatchObject({ continuations: 1, itoken: 30, otoken: 6 });
+    });
+
+    it('stops at maxContinuations and reports the length finish', async () => {
+        setMockResponses('long', { text: 'More', finishReason: 'length' });
+
+        const response = await generateText({ ...longRequest, maxContinuations: 2 });
+
+        expect(response).toMatchObject({ text: 'MoreMoreMore', finishReason: 'length' });
+        expect(getMockCalls()).toHaveLength(3);
+    });
+
+    it('does not continue without autoContinue', async () => {
+        setMockResponses('long', { text: 'Once upon', finishReason: 'length' });
+
+        const response = await generateText({ ...longRequest, autoContinue: false });
+
+        expect(response).toMatchObject({ text: 'Once upon', finishReason: 'length' });
+        expect(getMockCalls()).toHaveLength(1);
+    });
+
+    it('streams the continuation after the cut off part', async () => {
+        setMockResponses('long', [{ chunks: ['Once', ' upon'], finishReason: 'length' }, { chunks: [' a time.'] }]);
+
+        const events = await collect(generateStream(longRequest));
+
+        expect(events.filter(event => event.type === 'delta').map(event => event.text).join('')).toBe('Once upon a time.');
+        expect(events[events.length - 1]).toMatchObject({ type: 'done', finishReason: 'stop' });
+        expect(getMockCalls()[1].messages!.slice(-2)[0]).toEqual({ role: 'assistant', content: 'Once upon' });
+    });
+});
+
+describe('stream events', () => {
+    const streamRequest = { ...request, model: { mock: 'primary', backup: 'backup' }, fallbackOrder: ['mock', 'backup'], retry: 0 };
+
+    beforeAll(() => {
+        registerProvider('backup', () => new MockAdapter());
+    });
+
+    afterAll(() => {
+        unregisterProvider('backup');
+    });
+
+    it('yields start, delta, usage and done events in order', async () => {
+        setMockResponses('primary', { chunks: ['Hello', ' there'], usage: { itoken: 4, otoken: 2 } });
+
+        const events = await collect(generateStream(streamRequest));
+
+        expect(events.map(event => event.type)).toEqual(['start', 'delta', 'delta', 'usage', 'done']);
+        expect(events[0]).toMatchObject({ provider: 'mock', model: 'primary', attempt: 0 });
+        expect(events.filter(event => event.type === 'delta').map(event => event.text)).toEqual(['Hello', ' there']);
+    });
+
+    it('yields a fallback event with the failed text before starting the next provider', async () => {
+        setMockResponses('primary', { chunks: ['Hel', 'lo'], error: 'disconnect', failAfterChunks: 1 });
+        setMockResponses('backup', { chunks: ['Hi!'] });
+
+        const events = await collect(generateStream(streamRequest));
+        const fallback = events.find(event => event.type === 'fallback');
+
+        expect(fallback).toMatchObject({ provider: 'mock', text: 'Hel', nextProvider: 'backup', nextModel: 'backup', resumed: false });
+        expect(fallback.error).toBeInstanceOf(Error);
+        expect(events.slice(events.indexOf(fallback) + 1)[0]).toMatchObject({ type: 'start', provider: 'backup', attempt: 1 });
+        expect(events[events.length - 1]).toMatchObject({ type: 'done', provider: 'backup' });
+    });
+
+    it('ends with an error event once every provider failed', async () => {
+        setMockResponses('primary', { error: 'server_error' });
+        setMockResponses('backup', { error: 'server_error' });
+
+        const events = await collect(generateStream(streamRequest));
+
+        expect(events.filter(event => event.type === 'done')).toHaveLength(0);
+        expect(events[events.length - 1]).toMatchObject({ type: 'error', error: expect.any(Error) });
+    });
+});
+
+describe('fallbackMode', () => {
+    const streamRequest = { ...request, model: { mock: 'primary', backup: 'backup' }, fallbackOrder: ['mock', 'backup'], retry: 0 };
+
+    beforeAll(() => {
+        registerProvider('backup', () => new MockAdapter());
+    });
+
+    afterAll(() => {
+        unregisterProvider('backup');
+    });
+
+    it('restarts the next provider from scratch by default', async () => {
+        setMockResponses('primary', { chunks: ['Once', ' upon'], error: 'disconnect', failAfterChunks: 1 });
+        setMockResponses('backup', { chunks: ['Once upon a time.'] });
+
+        const events = await collect(generateStream(streamRequest));
+
+        expect(events.find(event => event.type === 'fallback')).toMatchObject({ text: 'Once', resumed: false });
+        expect(getMockCalls()[1].messages).toEqual(streamRequest.messages);
+    });
+
+    it('gives the next provider the emitted text to continue in resume mode', async () => {
+        setMockResponses('primary', { chunks: ['Once', ' upon'], error: 'disconnect', failAfterChunks: 1 });
+        setMockResponses('backup', { chunks: [' upon a time.'] });
+
+        const events = await collect(generateStream({ ...streamRequest, fallbackMode: 'resume' }));
+
+        expect(events.find(event => event.type === 'fallback')).toMatchObject({ text: 'Once', resumed: true });
+        expect(events.filter(event => event.type === 'delta').map(event => event.text).join('')).toBe('Once upon a time.');
+        expect(getMockCalls()[1].messages!.slice(-2)).toEqual([
+            { role: 'assistant', content: 'Once' },
+            { role: 'user', content: expect.stringContaining('Continue exactly where it stopped') }
+        ]);
+    });
+
+    it('does not mark the fallback resumed when nothing was emitted', async () => {
+        setMockResponses('primary', { error: 'server_error' });
+        setMockResponses('backup', { chunks: ['Once upon a time.'] });
+
+        const events = await collect(generateStream({ ...streamRequest, fallbackMode: 'resume' }));
+
+        expect(events.find(event => event.type === 'fallback')).toMatchObject({ text: '', resumed: false });
+        expect(getMockCalls()[1].messages).toEqual(streamRequest.messages);
+    });
+
+    it('falls back in restart_if_empty mode only while nothing was emitted', async () => {
+        setMockResponses('primary', [{ error: 'server_error' }, { chunks: ['Once', ' upon'], error: 'disconnect', failAfterChunks: 1 }]);
+        setMockResponses('backup', { chunks: ['Once upon a time.'] });
+
+        const before = await collect(generateStream({ ...streamRequest, fallbackMode: 'restart_if_empty' }));
+        const after = await collect(generateStream({ ...streamRequest, fallbackMode: 'restart_if_empty' }));
+
+        expect(before[before.length - 1]).toMatchObject({ type: 'done', provider: 'backup' });
+        expect(after.filter(event => event.type === 'fallback')).toHaveLength(0);
+        expect(after[after.length - 1]).toMatchObject({ type: 'error' });
+        expect(getMockCalls().filter(call => call.model === 'backup')).toHaveLength(1);
+    });
+});
@@ -0,0 +1,1839 @@
+import {
+    LLMProvider,
+    LLMError,
+    LLMResponse,
+    StreamLLMResponse,
+    LLMToolCall,
+    LLMRetryPolicy,
+    LLMTrackingMetadata,
+    LLMUsage,
+    LLMFinishReason,
+    LLMMessage,
+    TextGenerationRequest,
+    ImageGenerationRequest,
+    StructuredDataRequest,
+    StreamGenerationRequest,
+    StructuredStreamEvent,
+    RequestCacheOption,
+    ContextOverflowStrategy,
+    TokenCountRequest,
+    TokenCount,
+    LLMSamplingOptions,
+    LLMReasoning,
+    DocumentFallback,
+    LLMThinking
+} from '../index';
+import { AdapterResponse, AdapterTextOptions, AdapterUsage, ProviderAdapter, ProviderCredential } from '../types';
+import { getProvider, getDefaultModels, ModelUseCase, ProviderRegistration } from './registry';
+import { isCircuitOpen, claimProbe, recordSuccess, recordFailure } from './health';
+import { logTracking } from './tracking';
+import { estimateCost } from './pricing';
+import { isResponseCacheEnabled, responseCacheKey, contentDigest, getCachedResponse, setCachedResponse } from './cache';
+import { withImageInput, loadMessageImages, loadReferenceImages } from './images';
+import { withDocumentInput, documentTypeOf } from './documents';
+import { withCassette } from './cassette';
+import { estimateTokens, getModelContextWindow } from './tokens';
+import { createConversation, Conversation, ConversationOptions } from './conversation';
+import { retryWithBackoff, retryDelay, sleep, parseLLMJson, uploadBase64ImageToS3, log, generateTrackId, executeToolCalls, toolCallMessage, continuationMessages, parsePartialJson, removeNullOptionals, validateStructuredData, buildRepairPrompt, createTimeoutSignal, withAbort, withAbortStream, abortError, isRetryableError, isPlainUserTurn, appendThinking, thinkingText } from '../utils';
+
+// LLM client - holds its own credentials, defaults and adapter instances
+
+// Request options a client applies when the request does not set them
+export type LLMClientDefaults = {
+    maxToken?: number;
+    temperature?: number;
+    retry?: number | number[];
+    retryPolicy?: LLMRetryPolicy;
+    errorLevel?: 'quiet' | 'info' | 'warn' | 'error';
+    caller?: string;
+    metadata?: LLMTrackingMetadata; // Merged under the request's metadata
+    maxToolRounds?: number;
+    maxContinuations?: number;
+    maxRepairAttempts?: number;
+    contextOverflow?: ContextOverflowStrategy;
+    sampling?: LLMSamplingOptions;
+    strictSampling?: boolean;
+    reasoning?: LLMReasoning;
+    documentFallback?: DocumentFallback;
+    timeoutMs?: number;
+    attemptTimeoutMs?: number;
+}
+
+export type LLMClientConfig = {
+    credentials?: { [provider: string]: ProviderCredential | undefined }; // API keys by provider name
+    useEnv?: boolean; // Read credentials missing from `credentials` from environment variables (default true)
+    defaults?: LLMClientDefaults;
+    fallbackOrder?: LLMProvider[];
+    modelDefaults?: { [useCase in ModelUseCase]?: { [provider: string]: string } };
+}
+
+export type LLMClient = {
+    generateText(request: TextGenerationRequest): Promise<LLMResponse>;
+    generateImage(request: ImageGenerationRequest): Promise<LLMResponse>;
+    generateStructuredData<T = any>(request: StructuredDataRequest): Promise<LLMResponse<T>>;
+    generateStream(request: StreamGenerationRequest): AsyncGenerator<StreamLLMResponse>;
+    generateStructuredStream<T = any>(request: StructuredDataRequest): AsyncGenerator<StructuredStreamEvent<T>>;
+    countTokens(request: TokenCountRequest): Promise<TokenCount>;
+    createConversation(options: ConversationOptions): Conversation;
+    resetAdapters(): void; // Drop cached adapters so credentials are read again on the next call
+}
+
+type ClientContext = {
+    config: LLMClientConfig;
+    adapters: { [provider: string]: { registration: ProviderRegistration; adapter: ProviderAdapter } };
+}
+
+/**
+ * Create an LLM client with its own configuration
+ * @param config Credentials, request defaults, fallback order and default models
+ * @returns Client with the same generate functions as the module exports
+ */
+export function createLLMClient(config: LLMClientConfig = {}): LLMClient {
+    const client: ClientContext = { config, adapters: {} };
+
+    const llmClient: LLMClient = {
+        generateText: (request) => generateText(client, request),
+        generateImage: (request) => generateImage(client, request),
+        generateStructuredData: (request) => generateStructuredData(client, request),
+        generateStream: (request) => generateStream(client, request),
+        generateStructuredStream: (request) => generateStructuredStream(client, request),
+        countTokens: (request) => countTokens(client, request),
+        createConversation: (options) => createConversation(llmClient, options),
+        resetAdapters: () => {
+            client.adapters = {};
+        }
+    };
+    return llmClient;
+}
+
+// Default configurations
+const DEFAULT_CONFIG = {
+    maxToken: 1024,
+    temperature: 0.7,
+    retry: 1,
+    maxToolRounds: 5,
+    maxContinuations: 3,
+    maxRepairAttempts: 2,
+    fallbackOrder: ['google', 'anthropic'] as LLMProvider[]
+};
+
+function clientDefaults(client: ClientContext) {
+    return {
+        ...DEFAULT_CONFIG,
+        ...client.config.defaults,
+        fallbackOrder: client.config.fallbackOrder || DEFAULT_CONFIG.fallbackOrder
+    };
+}
+
+// Tracking metadata of a request on top of the client's default metadata
+function requestMetadata(client: ClientContext, request: { metadata?: LLMTrackingMetadata }): LLMTrackingMetadata | undefined {
+    const defaults = client.config.defaults?.metadata;
+    return defaults || request.metadata ? { ...defaults, ...request.metadata } : undefined;
+}
+
+function modelDefaults(client: ClientContext, useCase: ModelUseCase): { [provider: string]: string } {
+    return {
+        ...getDefaultModels(useCase),
+        ...client.config.modelDefaults?.[useCase]
+    };
+}
+
+// Credential of a provider from the client config, or from the registered environment variables
+function resolveCredential(client: ClientContext, registration: ProviderRegistration): ProviderCredential | undefined {
+    const credential = client.config.credentials?.[registration.name];
+    if (credential !== undefined) {
+        return credential;
+    }
+
+    const credentialEnv = registration.credentialEnv;
+    if (client.config.useEnv === false || !credentialEnv) {
+        return undefined;
+    }
+
+    if (typeof credentialEnv === 'string') {
+        return process.env[credentialEnv] || undefined;
+    }
+
+    const fields: { [field: string]: string } = {};
+    for (const [field, envVarName] of Object.entries(credentialEnv)) {
+        const value = process.env[envVarName];
+        if (!value) {
+            return undefined;
+        }
+        fields[field] = value;
+    }
+    return fields;
+}
+
+// Get the client's adapter of a provider, through the active cassette if any
+function getAdapter(client: ClientContext, provider: LLMProvider): ProviderAdapter {
+    const registration = getProvider(provider);
+    if (!registration) {
+        throw new LLMError(`Unknown provider: ${provider}`, provider, 'UNKNOWN_PROVIDER');
+    }
+    return withCassette(registration, () => createAdapter(client, provider, registration));
+}
+
+// Get the client's adapter of a provider, instantiating it on first use
+function createAdapter(client: ClientContext, provider: LLMProvider, registration: ProviderRegistration): ProviderAdapter {
+    // Re-registering a provider replaces the registration object
+    const cached = client.adapters[provider];
+    if (cached?.registration === registration) {
+        return cached.adapter;
+    }
+
+    let adapter: ProviderAdapter;
+    if (typeof registration.adapter === 'function') {
+        const credential = resolveCredential(client, registration);
+        if (registration.credentialEnv && credential === undefined) {
+            const envVarNames = typeof registration.credentialEnv === 'string'
+                ? registration.credentialEnv
+                : Object.values(registration.credentialEnv).join(', ');
+            throw new LLMError(
+                `API key not found for ${provider}. Please pass it in credentials or set ${envVarNames} environment variable.`,
+                provider,
+                'MISSING_API_KEY'
+            );
+        }
+        adapter = registration.adapter(credential);
+    } else {
+        adapter = registration.adapter;
+    }
+
+    // Image and document parts are loaded and fitted to the provider before the adapter converts them
+    adapter = withDocumentInput(provider, registration.documentInput, withImageInput(provider, registration.imageInput, adapter));
+    client.adapters[provider] = { registration, adapter };
+    return adapter;
+}
+
+// Retries of the provider at a position in the fallback order - positions past the end of an array get the default
+function retriesFor(retry: number | number[] | undefined, position: number): number {
+    const retries = Array.isArray(retry) ? retry[position] : retry;
+    return retries ?? DEFAULT_CONFIG.retry;
+}
+
+function toLLMUsage(usage: AdapterUsage): LLMUsage {
+    return {
+        promptTokens: usage.itoken,
+        completionTokens: usage.otoken,
+        thinkingTokens: usage.ttoken,
+        cachedTokens: usage.ctoken || 0,
+        totalTokens: usage.itoken + usage.otoken + usage.ttoken
+    };
+}
+
+// Finish reason of an adapter response - adapters that do not report one stopped normally or to call tools
+function finishReasonOf(response: AdapterResponse): LLMFinishReason {
+    return response.finishReason || (response.toolCalls?.length ? 'tool_call' : 'stop');
+}
+
+// Key of an adapter call in the response cache, undefined when the cache is off or skipped by the request
+function cacheKeyOf(cache: RequestCacheOption | undefined, call: object): string | undefined {
+    return isResponseCacheEnabled(cache) ? responseCacheKey(call) : undefined;
+}
+
+// Run one adapter call bounded by the request signal and the per-attempt timeout, recording the provider's health
+async function runAttempt<T>(
+    provider: LLMProvider,
+    model: string,
+    requestSignal: AbortSignal,
+    attemptTimeoutMs: number | undefined,
+    fn: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+    if (requestSignal.aborted) {
+        throw abortError(requestSignal, provider);
+    }
+    claimAttempt(provider);
+    const attempt = createTimeoutSignal(requestSignal, attemptTimeoutMs);
+    const startedAt = Date.now();
+    try {
+        const result = await withAbort(fn(attempt.signal), attempt.signal, provider);
+        recordSuccess(provider, model, Date.now() - startedAt);
+        return result;
+    } catch (error: any) {
+        recordAttemptFailure(provider, model, requestSignal, startedAt, error);
+        throw error;
+    } finally {
+        attempt.dispose();
+    }
+}
+
+// Claim the probe of a half-open circuit for an attempt - the provider is skipped while another request probes it
+function claimAttempt(provider: LLMProvider): void {
+    if (!claimProbe(provider)) {
+        throw new LLMError(`Circuit half-open for ${provider}, another request is probing it`, provider, 'CIRCUIT_OPEN');
+    }
+}
+
+// Only outage-like errors count against a provider - not caller aborts or errors caused by the request itself
+function recordAttemptFailure(provider: LLMProvider, model: string, requestSignal: AbortSignal, startedAt: number, error: any): void {
+    if (!requestSignal.aborted && isRetryableError(error)) {
+        recordFailure(provider, model, Date.now() - startedAt, error);
+    }
+}
+
+// Resolve the adapters of the providers in the fallback order - providers without credentials
+// and providers with an open circuit are skipped, unless every provider's circuit is open
+async function prepareAdapters(
+    client: ClientContext,
+    fallbackOrder: LLMProvider[],
+    models: { [provider: string]: string | undefined },
+    errorLevel: 'quiet' | 'info' | 'warn' | 'error'
+): Promise<{ adapters: { [provider: string]: ProviderAdapter }; skipError: Error | null }> {
+    const adapters: { [provider: string]: ProviderAdapter } = {};
+    let skipError: Error | null = null;
+
+    for (const provider of fallbackOrder) {
+        try {
+            adapters[provider] = getAdapter(client, provider);
+        } catch (error: any) {
+            skipError = error;
+            log('warn', errorLevel, `Skipping ${provider}: ${error.message}`);
+        }
+    }
+
+    const candidates = Object.keys(adapters).filter(provider => models[provider]);
+    const openProviders = candidates.filter(provider => isCircuitOpen(provider));
+    if (openProviders.length === candidates.length) {
+        if (openProviders.length > 0) {
+            log('warn', errorLevel, `Circuits of all providers are open, trying them anyway: ${openProviders.join(', ')}`);
+        }
+        return { adapters, skipError };
+    }
+
+    for (const provider of openProviders) {
+        delete adapters[provider];
+        skipError = new LLMError(`Circuit open for ${provider} after repeated failures`, provider, 'CIRCUIT_OPEN');
+        log('warn', errorLevel, `Skipping ${provider}: circuit open`);
+    }
+
+    return { adapters, skipError };
+}
+
+// Pre-flight check that the prompt plus maxToken fits each provider's context window, using the local token estimate.
+// Providers the request does not fit are skipped - after dropping the oldest turns with 'drop_oldest',
+// and all of them with 'reject' when it does not fit the first provider
+function guardContext(
+    adapters: { [provider: string]: ProviderAdapter },
+    fallbackOrder: LLMProvider[],
+    request: { model: { [provider: string]: string | undefined }; system: string; messages: LLMMessage[]; maxToken: number; contextOverflow?: ContextOverflowStrategy },
+    errorLevel: 'quiet' | 'info' | 'warn' | 'error'
+): { messages: LLMMessage[]; skipError: Error | null } {
+    const strategy = request.contextOverflow;
+    const candidates = fallbackOrder.filter(provider => adapters[provider] && request.model[provider]);
+    if (!strategy || candidates.length === 0) {
+        return { messages: request.messages, skipError: null };
+    }
+
+    // Counted per message once, so dropping turns does not estimate the whole history again
+    const systemTokens = estimateTokens(request.system, []);
+    const messageTokens = request.messages.map(message => estimateTokens('', [message]));
+    let first = 0;
+    const needed = () => systemTokens + messageTokens.slice(first).reduce((total, tokens) => total + tokens, 0) + request.maxToken;
+    const contextWindow = (provider: LLMProvider) => getModelContextWindow(provider, request.model[provider]!);
+    const fits = (provider: LLMProvider) => {
+        const tokens = contextWindow(provider);
+        return tokens === undefined || needed() <= tokens;
+    };
+
+    if (strategy === 'drop_oldest') {
+        while (first < request.messages.length - 1 && candidates.some(provider => !fits(provider))) {
+            // Drop the oldest turn, then anything that no longer starts with a plain user turn, like orphaned tool results
+            first++;
+            while (first < request.messages.length - 1 && !isPlainUserTurn(request.messages[first])) {
+                first++;
+            }
+        }
+        if (first > 0) {
+            log('info', errorLevel, `Dropped the ${first} oldest messages to fit the context window`);
+        }
+    }
+
+    const overflowError = (provider: LLMProvider) => new LLMError(
+        `Request needs about ${needed()} tokens including maxToken, more than the ${contextWindow(provider)} token context window of ${request.model[provider]}`,
+        provider,
+        'CONTEXT_OVERFLOW'
+    );
+
+    if (strategy === 'reject' && !fits(candidates[0])) {
+        const error = overflowError(candidates[0]);
+        log('warn', errorLevel, `Rejecting request: ${error.message}`);
+        for (const provider of candidates) {
+            delete adapters[provider];
+        }
+        return { messages: request.messages, skipError: error };
+    }
+
+    let skipError: Error | null = null;
+    for (const provider of candidates.filter(provider => !fits(provider))) {
+        skipError = overflowError(provider);
+        delete adapters[provider];
+        log('warn', errorLevel, `Skipping ${provider}: ${skipError.message}`);
+    }
+
+    return { messages: request.messages.slice(first), skipError };
+}
+
+// Warn about sampling parameters and reasoning a provider leaves out, or skip the provider in strict mode
+function guardSampling(
+    adapters: { [provider: string]: ProviderAdapter },
+    fallbackOrder: LLMProvider[],
+    request: { model: { [provider: string]: string | undefined }; sampling?: LLMSamplingOptions; reasoning?: LLMReasoning; strictSampling?: boolean },
+    errorLevel: 'quiet' | 'info' | 'warn' | 'error'
+): Error | null {
+    let skipError: Error | null = null;
+    for (const provider of fallbackOrder.filter(provider => adapters[provider] && request.model[provider])) {
+        const unsupported = unsupportedSampling(provider, request.sampling);
+        if (reasoningOf(provider, request.model[provider]!, request.reasoning) !== request.reasoning) {
+            unsupported.push('reasoning');
+        }
+        if (unsupported.length === 0) {
+            continue;
+        }
+        if (!request.strictSampling) {
+            log('warn', errorLevel, `Leaving out ${unsupported.join(', ')}: not supported by ${provider}`);
+            continue;
+        }
+        skipError = new LLMError(`${provider} does not support ${unsupported.join(', ')}`, provider, 'UNSUPPORTED_PARAMETER');
+        delete adapters[provider];
+        log('warn', errorLevel, `Skipping ${provider}: ${skipError.message}`);
+    }
+    return skipError;
+}
+
+// Skip providers that do not accept the request's PDF documents, unless their text is sent instead
+function guardDocuments(
+    adapters: { [provider: string]: ProviderAdapter },
+    fallbackOrder: LLMProvider[],
+    request: { model: { [provider: string]: string | undefined }; messages: LLMMessage[]; documentFallback?: DocumentFallback },
+    errorLevel: 'quiet' | 'info' | 'warn' | 'error'
+): Error | null {
+    const hasPdf = request.messages.some(message => typeof message.content !== 'string'
+        && message.content.some(part => part.type === 'document' && documentTypeOf(part.document) === 'application/pdf'));
+    if (!hasPdf) {
+        return null;
+    }
+
+    let skipError: Error | null = null;
+    for (const provider of fallbackOrder.filter(provider => adapters[provider] && request.model[provider])) {
+        if (getProvider(provider)?.documentInput?.includes('application/pdf')) {
+            continue;
+        }
+        if (request.documentFallback === 'extract_text') {
+            log('info', errorLevel, `Sending the text of PDF documents to ${provider}`);
+            continue;
+        }
+        skipError = new LLMError(`${provider} does not accept PDF documents`, provider, 'UNSUPPORTED_DOCUMENT');
+        delete adapters[provider];
+        log('warn', errorLevel, `Skipping ${provider}: ${skipError.message}`);
+    }
+    return skipError;
+}
+
+// Set sampling parameters the provider's registration does not list
+function unsupportedSampling(provider: LLMProvider, sampling: LLMSamplingOptions | undefined): string[] {
+    const supported = getProvider(provider)?.samplingParameters;
+    if (!sampling || !supported) {
+        return [];
+    }
+    return Object.entries(sampling)
+        .filter(([name, value]) => value !== undefined && !supported.includes(name as keyof LLMSamplingOptions))
+        .map(([name]) => name);
+}
+
+// Sampling parameters sent to a provider - unsupported ones are left out
+function samplingOf(provider: LLMProvider, sampling: LLMSamplingOptions | undefined): LLMSamplingOptions | undefined {
+    const unsupported = unsupportedSampling(provider, sampling);
+    if (!sampling || unsupported.length === 0) {
+        return sampling;
+    }
+    return Object.fromEntries(Object.entries(sampling).filter(([name]) => !unsupported.includes(name)));
+}
+
+// Reasoning sent to a provider - left out for models that do not take it
+function reasoningOf(provider: LLMProvider, model: string, reasoning: LLMReasoning | undefined): LLMReasoning | undefined {
+    const supportsReasoning = getProvider(provider)?.supportsReasoning;
+    return reasoning === undefined || !supportsReasoning || supportsReasoning(model, reasoning) ? reasoning : undefined;
+}
+
+/**
+ * Generate text using LLM with automatic fallback
+ * @param request Text generation request configuration
+ * @returns Promise with generated text
+ */
+async function generateText(client: ClientContext, request: TextGenerationRequest): Promise<LLMResponse> {
+
+    const config = {
+        ...clientDefaults(client),
+        ...request,
+        model: {
+            ...modelDefaults(client, 'text'),
+            ...request.model
+        }
+    };
+
+    const fallbackOrder = config.fallbackOrder || DEFAULT_CONFIG.fallbackOrder;
+    const errorLevel = config.errorLevel || 'quiet';
+    let lastError: Error | null = null;
+    
+    // Generate tracking ID and start timer
+    const trackId = generateTrackId();
+    const started_at = Date.now();
+    const caller = request.caller || '[warning] no caller';
+    const metadata = requestMetadata(client, request);
+    let attemptCount = 0;
+    
+    log('info', errorLevel, `Starting generateText with providers: ${fallbackOrder.join(', ')}`);
+
+    // Images are validated once here, so an invalid image fails the request instead of every provider and retry
+    config.messages = await loadMessageImages(config.messages, fallbackOrder[0]);
+    
+    const { adapters, skipError } = await prepareAdapters(client, fallbackOrder, config.model, errorLevel);
+    const context = guardContext(adapters, fallbackOrder, config, errorLevel);
+    const samplingError = guardSampling(adapters, fallbackOrder, config, errorLevel);
+    const documentError = guardDocuments(adapters, fallbackOrder, { ...config, messages: context.messages }, errorLevel);
+    lastError = documentError || samplingError || context.skipError || skipError;
+
+    // Caller's signal plus the overall timeout - once aborted, no further provider is tried
+    const requestSignal = createTimeoutSignal(config.signal, config.timeoutMs);
+
+    const adapterOptions: AdapterTextOptions = {
+        tools: config.tools,
+        toolChoice: config.toolChoice,
+        documentFallback: config.documentFallback
+    };
+
+    // Shared across providers so executed tool rounds survive a fallback
+    const messages = [...context.messages];
+
+    for (const provider of fallbackOrder) {
+        const model = config.model[provider];
+        if (!model || !adapters[provider]) continue;
+        const providerOptions: AdapterTextOptions = {
+            ...adapterOptions,
+            sampling: samplingOf(provider, config.sampling),
+            reasoning: reasoningOf(provider, model, config.reasoning)
+        };
+
+        const providerAttempt = attemptCount++;
+        let usage: AdapterUsage = { itoken: 0, otoken: 0, ttoken: 0, ctoken: 0 };
+        let retryCount = 0;
+        let continuations = 0;
+        let calls = 0;
+        let cacheHits = 0;
+
+        try {
+            log('info', errorLevel, `Trying provider: ${provider} with model: ${model}`);
+            let adapterResponse: AdapterResponse | undefined;
+            let toolRounds = 0;
+
+            // Reply text joined across continuations, and the turns asking for them
+            let text = '';
+            let continuationTurns: LLMMessage[] = [];
+            let thinking = '';
+
+            while (true) {
+                const callMessages = [...messages, ...continuationTurns];
+                const cacheKey = cacheKeyOf(config.cache, {
+                    provider, model, system: config.system, messages: callMessages,
+                    maxToken: config.maxToken, temperature: config.temperature, options: providerOptions
+                });
+                adapterResponse = cacheKey ? await getCachedResponse<AdapterResponse>(cacheKey) : undefined;
+                const cacheHit = !!adapterResponse;
+                calls++;
+
+                if (cacheHit) {
+                    cacheHits++;
+                    log('info', errorLevel, `Response cache hit for ${provider}`);
+                } else {
+                    await retryWithBackoff(async (attempt) => {
+                        if (attempt > 0) {
+                            retryCount++;
+                            log('info', errorLevel, `Retrying ${provider} (attempt ${attempt + 1})`);
+                        }
+                        const adapter = adapters[provider];
+                        if (!adapter.generateText) {
+                            throw new LLMError(`Text generation not supported by ${provider}`, provider, 'NOT_SUPPORTED');
+                        }
+                        adapterResponse = await runAttempt(provider, model, requestSignal.signal, config.attemptTimeoutMs, signal =>
+                            adapter.generateText!( model, config.system, callMessages, config.maxToken, config.temperature, { ...providerOptions, signal } )
+                        );
+                    }, retriesFor(config.retry, fallbackOrder.indexOf(provider)), config.retryPolicy, requestSignal.signal);
+                }
+
+                if (!adapterResponse) {
+                    throw new Error('No response from adapter');
+                }
+
+                if (!cacheHit) {
+                    if (cacheKey) {
+                        await setCachedResponse(cacheKey, adapterResponse, config.cache);
+                    }
+                    usage.itoken += adapterResponse.usage.itoken;
+                    usage.otoken += adapterResponse.usage.otoken;
+                    usage.ttoken += adapterResponse.usage.ttoken;
+                    usage.ctoken = (usage.ctoken || 0) + (adapterResponse.usage.ctoken || 0);
+                }
+                text += adapterResponse.response;
+                thinking += thinkingText(adapterResponse.thinking);
+
+                const toolCalls: LLMToolCall[] = adapterResponse.toolCalls || [];
+                if (config.autoContinue && adapterResponse.finishReason === 'length' && toolCalls.length === 0 && continuations < config.maxContinuations) {
+                    continuations++;
+                    log('info', errorLevel, `Reply hit the token limit, requesting continuation ${continuations}`);
+                    continuationTurns.push(...continuationMessages(adapterResponse.response));
+                    continue;
+                }
+
+                const canExecute = toolCalls.every(call => config.tools?.find(tool => tool.name === call.name)?.handler);
+                if (!config.autoExecuteTools || toolCalls.length === 0 || !canExecute || toolRounds >= config.maxToolRounds) {
+                    break;
+                }
+
+                toolRounds++;
+                log('info', errorLevel, `Executing tool calls (round ${toolRounds}): ${toolCalls.map(call => call.name).join(', ')}`);
+                messages.push(toolCallMessage(text, toolCalls, adapterResponse.thinking));
+                messages.push(await executeToolCalls(config.tools || [], toolCalls));
+                text = '';
+                continuationTurns = [];
+            }
+
+            log('info', errorLevel, `Success with provider: ${provider}`);
+            
+            // Log tracking data
+            const finished_at = Date.now();
+            const estimatedCost = estimateCost(provider, model, usage, 0, errorLevel);
+            logTracking({
+                trackid: trackId,
+                provider,
+                itoken: usage.itoken,
+                otoken: usage.otoken,
+                ttoken: usage.ttoken,
+                estimated_cost: estimatedCost,
+                started_at,
+                elapsed_seconds: finished_at - started_at,
+                model,
+                request_type: 'text',
+                caller,
+                retry_count: retryCount,
+                continuations,
+                attempt: providerAttempt,
+                cache_hit: cacheHits === calls,
+                metadata
+            });
+            
+            requestSignal.dispose();
+            return {
+                text,
+                ...(thinking ? { thinking } : {}),
+                data: undefined,
+                provider,
+                model,
+                toolCalls: adapterResponse.toolCalls,
+                messages: toolRounds > 0 ? messages : undefined,
+                estimatedCost,
+                usage: toLLMUsage(usage),
+                finishReason: finishReasonOf(adapterResponse),
+                cached: cacheHits === calls
+            };
+        } catch (error: any) {
+            lastError = error;
+            log('warn', errorLevel, `Failed with ${provider}: ${error.message}`);
+
+            // Tokens of completed tool rounds are billed even though the attempt failed
+            logTracking({
+                trackid: trackId,
+                provider,
+                itoken: usage.itoken,
+                otoken: usage.otoken,
+                ttoken: usage.ttoken,
+                estimated_cost: estimateCost(provider, model, usage, 0, errorLevel),
+                started_at,
+                elapsed_seconds: Date.now() - started_at,
+                model,
+                request_type: 'text',
+                caller,
+                error: error.message,
+                retry_count: retryCount,
+                continuations,
+                attempt: providerAttempt,
+                metadata
+            });
+
+            if (requestSignal.signal.aborted) {
+                break;
+            }
+        }
+    }
+
+    requestSignal.dispose();
+
+    log('error', errorLevel, 'All providers failed', lastError);
+    
+    // Log failed tracking data when no provider could be tried
+    if (attemptCount === 0) {
+        const finishedAt = Date.now();
+        logTracking({
+            trackid: trackId,
+            provider: fallbackOrder[0] || 'unknown',
+            itoken: 0,
+            otoken: 0,  
+            ttoken: 0,
+            estimated_cost: 0,
+            started_at: started_at,
+            elapsed_seconds: finishedAt - started_at,
+            model: 'unknown',
+            request_type: 'text',
+            caller,
+            error: lastError?.message || 'All providers failed',
+            retry_count: 0,
+            metadata
+        });
+    }
+    
+    throw lastError || new Error('All providers failed');
+}
+
+/**
+ * Generate image using LLM with automatic fallback
+ * @param request Image generation request configuration
+ * @returns Promise with image URL
+ */
+async function generateImage(client: ClientContext, request: ImageGenerationRequest): Promise<LLMResponse> {
+    const config = {
+        ...clientDefaults(client),
+        ...request,
+        model: {
+            ...modelDefaults(client, 'image'),
+            ...request.model
+        }
+    };
+
+    const fallbackOrder = config.fallbackOrder || ['google', 'openai', 'kling'];
+    const errorLevel = config.errorLevel || 'quiet';
+    let lastError: Error | null = null;
+    
+    // Generate tracking ID and start timer
+    const trackId = generateTrackId();
+    const startedAt = Date.now();
+    const caller = request.caller || '[warning] no caller';
+    const metadata = requestMetadata(client, request);
+    let attemptCount = 0;
+
+    log('info', errorLevel, `Starting generateImage with providers: ${fallbackOrder.join(', ')}`);
+
+    const { adapters, skipError } = await prepareAdapters(client, fallbackOrder, config.model, errorLevel);
+    lastError = skipError;
+
+    // Check that every provider in the fallback order can generate images
+    const unsupportedProviders = fallbackOrder.filter(provider => adapters[provider] && !adapters[provider].generateImage);
+    if (unsupportedProviders.length > 0) {
+        throw new Error(`${unsupportedProviders.join(', ')} does not support image generation. Please use providers with image generation such as Google, OpenAI, or Kling.`);
+    }
+
+    // Reference images are loaded and validated once, so an invalid one fails the request before any provider is tried
+    const referenceImage = await loadReferenceImages(config.referenceImage, fallbackOrder[0], config.signal);
+
+    // Caller's signal plus the overall timeout - once aborted, no further provider is tried
+    const requestSignal = createTimeoutSignal(config.signal, config.timeoutMs);
+
+    // Use prompt directly from the request
+    const prompt = config.prompt;
+
+    for (const provider of fallbackOrder) {
+        const model = config.model[provider];
+        if (!model || !adapters[provider]) continue;
+
+        const providerAttempt = attemptCount++;
+        let retryCount = 0;
+
+        try {
+            log('info', errorLevel, `Trying provider: ${provider} with model: ${model}`);
+            let imageUrl: string = '';
+            let adapterUsage: AdapterUsage | undefined;
+
+            // Helper function to handle S3 upload for base64 images
+            const handleImageUpload = async (imageUrl: string, providerName: string): Promise<string> => {
+                if (imageUrl.startsWith('data:image')) {
+                    log('info', errorLevel, `Uploading ${providerName} image to S3...`);
+                    const s3Url = await uploadBase64ImageToS3(imageUrl);
+                    if (s3Url) {
+                        log('info', errorLevel, `Image uploaded to: ${s3Url}`);
+                        return s3Url;
+                    } else {
+                        throw new Error('Failed to upload image to S3');
+                    }
+                }
+                return imageUrl;
+            };
+
+            // The uploaded URL is cached, so a cache hit does not upload the image again
+            // Reference images are keyed by their loaded content, so the same image matches whichever way it was given
+            const cacheKey = cacheKeyOf(config.cache, {
+                provider, model, prompt, system: config.system,
+                width: config.width, height: config.height,
+                referenceImage: Array.isArray(referenceImage) ? referenceImage.map(contentDigest) : referenceImage && contentDigest(referenceImage)
+            });
+            const cached = cacheKey ? await getCachedResponse<{ imageUrl: string; usage: AdapterUsage }>(cacheKey) : undefined;
+
+            if (cached) {
+                log('info', errorLevel, `Response cache hit for ${provider}`);
+                imageUrl = cached.imageUrl;
+            } else {
+                await retryWithBackoff(async (attempt) => {
+                    if (attempt > 0) {
+                        retryCount++;
+                        log('info', errorLevel, `Retrying ${provider} (attempt ${attempt + 1})`);
+                    }
+                    const adapter = adapters[provider];
+                    if (!adapter.generateImage) {
+                        throw new Error(`Image generation not supported for ${provider}`);
+                    }
+                    const result = await runAttempt(provider, model, requestSignal.signal, config.attemptTimeoutMs, signal =>
+                        adapter.generateImage!({
+                            model,
+                            prompt,
+                            system: config.system,
+                            width: config.width,
+                            height: config.height,
+                            referenceImage,
+                            signal
+                        })
+                    );
+                    adapterUsage = result.usage;
+                    imageUrl = await handleImageUpload(result.imageUrl, provider);
+                }, retriesFor(config.retry, fallbackOrder.indexOf(provider)), config.retryPolicy, requestSignal.signal);
+
+                if (cacheKey) {
+                    await setCachedResponse(cacheKey, { imageUrl, usage: adapterUsage }, config.cache);
+                }
+            }
+
+            log('info', errorLevel, `Success with provider: ${provider}`);
+            
+            // Log tracking data for image generation
+            const finishedAt = Date.now();
+            const estimatedCost = cached ? 0 : estimateCost(provider, model, adapterUsage || { itoken: 0, otoken: 0, ttoken: 0 }, 1, errorLevel);
+            logTracking({
+                trackid: trackId,
+                provider,
+                itoken: adapterUsage?.itoken || 0,
+                otoken: adapterUsage?.otoken || 0,
+                ttoken: adapterUsage?.ttoken || 0,
+                estimated_cost: estimatedCost,
+                started_at: startedAt,
+                elapsed_seconds: finishedAt - startedAt,
+                model,
+                request_type: 'image',
+                caller,
+                retry_count: retryCount,
+                attempt: providerAttempt,
+                cache_hit: !!cached,
+                metadata
+            });
+            
+            requestSignal.dispose();
+            return {
+                imageUrl,
+                data: undefined,
+                provider,
+                model,
+                estimatedCost,
+                usage: toLLMUsage(adapterUsage || { itoken: 0, otoken: 0, ttoken: 0 }),
+                finishReason: 'stop',
+                cached: !!cached
+            };
+        } catch (error: any) {
+            lastError = error;
+            log('warn', errorLevel, `Failed with ${provider}: ${error.message}`);
+            logTracking({
+                trackid: trackId,
+                provider,
+                itoken: 0,
+                otoken: 0,
+                ttoken: 0,
+                estimated_cost: 0,
+                started_at: startedAt,
+                elapsed_seconds: Date.now() - startedAt,
+                model,
+                request_type: 'image',
+                caller,
+                error: error.message,
+                retry_count: retryCount,
+                attempt: providerAttempt,
+                metadata
+            });
+            if (requestSignal.signal.aborted) {
+                break;
+            }
+        }
+    }
+
+    requestSignal.dispose();
+
+    log('error', errorLevel, 'All providers failed', lastError);
+    
+    // Log failed tracking data when no provider could be tried
+    if (attemptCount === 0) {
+        const finishedAt = Date.now();
+        logTracking({
+            trackid: trackId,
+            provider: fallbackOrder[0] || 'unknown',
+            itoken: 0,
+            otoken: 0,
+            ttoken: 0,
+            estimated_cost: 0,
+            started_at: startedAt,
+            elapsed_seconds: finishedAt - startedAt,
+            model: 'unknown',
+            request_type: 'image',
+            caller,
+            error: lastError?.message || 'All providers failed',
+            retry_count: 0,
+            metadata
+        });
+    }
+    
+    throw lastError || new Error('All providers failed');
+}
+
+/**
+ * Generate structured data using LLM with automatic fallback
+ * @param request Structured data generation request configuration
+ * @returns Promise with parsed structured data
+ */
+async function generateStructuredData<T = any>(client: ClientContext, request: StructuredDataRequest): Promise<LLMResponse<T>> {
+    
+    const config = {
+        ...clientDefaults(client),
+        ...request,
+        model: {
+            ...modelDefaults(client, 'structured'),
+            ...request.model
+        }
+    };
+
+    const fallbackOrder = config.fallbackOrder || DEFAULT_CONFIG.fallbackOrder;
+    const errorLevel = config.errorLevel || 'quiet';
+    let lastError: Error | null = null;
+    
+    // Generate tracking ID and start timer
+    const trackId = generateTrackId();
+    const startedAt = Date.now();
+    const caller = request.caller || '[warning] no caller';
+    const metadata = requestMetadata(client, request);
+    let attemptCount = 0;
+    
+    // Accumulate tokens from all attempts (including JSON parsing failures)
+    let totalTokenUsage = { itoken: 0, otoken: 0, ttoken: 0 };
+
+    log('info', errorLevel, `Starting generateStructuredData with providers: ${fallbackOrder.join(', ')}`);
+
+    // Images are validated once here, so an invalid image fails the request instead of every provider and retry
+    config.messages = await loadMessageImages(config.messages, fallbackOrder[0]);
+
+    const { adapters, skipError } = await prepareAdapters(client, fallbackOrder, config.model, errorLevel);
+    const context = guardContext(adapters, fallbackOrder, config, errorLevel);
+    const samplingError = guardSampling(adapters, fallbackOrder, config, errorLevel);
+    const documentError = guardDocuments(adapters, fallbackOrder, { ...config, messages: context.messages }, errorLevel);
+    lastError = documentError || samplingError || context.skipError || skipError;
+
+    // Caller's signal plus the overall timeout - once aborted, no further provider is tried
+    const requestSignal = createTimeoutSignal(config.signal, config.timeoutMs);
+
+    // Add JSON instruction to the last message
+    const messages = [...context.messages];
+
+    const adapterOptions: AdapterTextOptions = {
+        responseSchema: config.schema,
+        responseSchemaName: config.schemaName,
+        documentFallback: config.documentFallback
+    };
+    
+    for (const provider of fallbackOrder) {
+        const model = config.model[provider];
+        if (!model || !adapters[provider]) continue;
+        const providerOptions: AdapterTextOptions = {
+            ...adapterOptions,
+            sampling: samplingOf(provider, config.sampling),
+            reasoning: reasoningOf(provider, model, config.reasoning)
+        };
+
+        const providerAttempt = attemptCount++;
+        let retryCount = 0;
+
+        try {
+            log('info', errorLevel, `Trying provider: ${provider} with model: ${model}`);
+            let adapterResponse: AdapterResponse | undefined;
+            let data: T | undefined;
+
+            // Tokens of every call to this provider, including retries and repair turns
+            const providerUsage: AdapterUsage = { itoken: 0, otoken: 0, ttoken: 0, ctoken: 0 };
+
+            // Repair turns are only sent to the provider that produced the invalid data
+            const providerMessages = [...messages];
+            let repairAttempt = 0;
+            let calls = 0;
+            let cacheHits = 0;
+
+            // Keyed by the request before any repair turn - only the final, valid response is cached
+            const cacheKey = cacheKeyOf(config.cache, {
+                provider, model, system: config.system, messages: providerMessages,
+                maxToken: config.maxToken, temperature: config.temperature, options: providerOptions
+            });
+            let cached: AdapterResponse | undefined;
+
+            while (true) {
+                cached = cacheKey && repairAttempt === 0 ? await getCachedResponse<AdapterResponse>(cacheKey) : undefined;
+                calls++;
+
+                if (cached) {
+                    cacheHits++;
+                    log('info', errorLevel, `Response cache hit for ${provider}`);
+                    adapterResponse = cached;
+                    logTracking({
+                        trackid: trackId,
+                        provider,
+                        itoken: 0,
+                        otoken: 0,
+                        ttoken: 0,
+                        estimated_cost: 0,
+                        started_at: startedAt,
+                        elapsed_seconds: Date.now() - startedAt,
+                        model,
+                        request_type: 'structured',
+                        caller,
+                        retry_count: retryCount,
+                        repair_attempt: repairAttempt,
+                        attempt: providerAttempt,
+                        cache_hit: true,
+                        metadata
+                    });
+                    // Only responses that parsed and passed validation are cached
+                    data = parseLLMJson<T>(cached.response);
+                } else {
+                    await retryWithBackoff(async (attempt) => {
+                        if (attempt > 0) {
+                            retryCount++;
+                            log('info', errorLevel, `Retrying ${provider} (attempt ${attempt + 1})`);
+                        }
+                        const adapter = adapters[provider];
+                        if (!adapter.generateText) {
+                            throw new LLMError(`Text generation not supported by ${provider}`, provider, 'NOT_SUPPORTED');
+                        }
+                        adapterResponse = await runAttempt(provider, model, requestSignal.signal, config.attemptTimeoutMs, signal =>
+                            adapter.generateText!( model, config.system, providerMessages, config.maxToken, config.temperature, { ...providerOptions, signal } )
+                        );
+
+                        if (adapterResponse) {
+                            // Log this individual attempt immediately (before JSON parsing)
+                            const attemptFinishedAt = Date.now();
+                            logTracking({
+                                trackid: trackId,
+                                provider,
+                                itoken: adapterResponse.usage.itoken,
+                                otoken: adapterResponse.usage.otoken,
+                                ttoken: adapterResponse.usage.ttoken,
+                                estimated_cost: estimateCost(provider, model, adapterResponse.usage, 0, errorLevel),
+                                started_at: startedAt,
+                                elapsed_seconds: attemptFinishedAt - startedAt,
+                                model,
+                                request_type: 'structured',
+                                caller,
+                                retry_count: retryCount,
+                                repair_attempt: repairAttempt,
+                                attempt: providerAttempt,
+                                cache_hit: false,
+                                metadata,
+                                error: undefined // LLM succeeded, but JSON parsing might fail
+                            });
+                        
+                            // Accumulate for potential final summary log
+                            totalTokenUsage.itoken += adapterResponse.usage.itoken;
+                            totalTokenUsage.otoken += adapterResponse.usage.otoken;
+                            totalTokenUsage.ttoken += adapterResponse.usage.ttoken;
+
+                            providerUsage.itoken += adapterResponse.usage.itoken;
+                            providerUsage.otoken += adapterResponse.usage.otoken;
+                            providerUsage.ttoken += adapterResponse.usage.ttoken;
+                            providerUsage.ctoken = (providerUsage.ctoken || 0) + (adapterResponse.usage.ctoken || 0);
+                        
+                            // Parse the JSON response (this can fail and cause retry)
+                            log('info', errorLevel, 'Parsing JSON response...');
+                            data = removeNullOptionals(parseLLMJson<T>(adapterResponse.response), config.schema);
+                        }
+                    }, retriesFor(config.retry, fallbackOrder.indexOf(provider)), config.retryPolicy, requestSignal.signal);
+                }
+
+                if (!config.validate || !adapterResponse) {
+                    break;
+                }
+
+                const validationErrors = await validateStructuredData(data, config.validate);
+                if (validationErrors.length === 0) {
+                    break;
+                }
+
+                log('warn', errorLevel, `Validation failed with ${provider}: ${validationErrors.join('; ')}`);
+                logTracking({
+                    trackid: trackId,
+                    provider,
+                    itoken: 0,
+                    otoken: 0,
+                    ttoken: 0,
+                    estimated_cost: 0,
+                    started_at: startedAt,
+                    elapsed_seconds: Date.now() - startedAt,
+                    model,
+                    request_type: 'structured',
+                    caller,
+                    retry_count: retryCount,
+                    repair_attempt: repairAttempt,
+                    attempt: providerAttempt,
+                    metadata,
+                    error: `Validation failed: ${validationErrors.join('; ')}`
+                });
+
+                if (repairAttempt >= config.maxRepairAttempts) {
+                    throw new LLMError(`Structured data failed validation: ${validationErrors.join('; ')}`, provider, 'VALIDATION_FAILED');
+                }
+
+                repairAttempt++;
+                log('info', errorLevel, `Sending repair request ${repairAttempt} to ${provider}`);
+                providerMessages.push(
+                    { role: 'assistant', content: adapterResponse.response },
+                    { role: 'user', content: buildRepairPrompt(validationErrors) }
+                );
+            }
+
+            if (cacheKey && adapterResponse && !cached) {
+                await setCachedResponse(cacheKey, adapterResponse, config.cache);
+            }
+
+            log('info', errorLevel, `Success with provider: ${provider}`);
+            
+            if (adapterResponse && data) {
+                requestSignal.dispose();
+                const thinking = thinkingText(adapterResponse.thinking);
+                return {
+                    text: adapterResponse.response,
+                    ...(thinking ? { thinking } : {}),
+                    data: data,
+                    provider,
+                    model,
+                    estimatedCost: estimateCost(provider, model, providerUsage, 0, errorLevel),
+                    usage: toLLMUsage(providerUsage),
+                    finishReason: finishReasonOf(adapterResponse),
+                    cached: cacheHits === calls
+                };
+            } else {
+                throw new Error('No response from adapter or failed to parse data');
+            }
+        } catch (error: any) {
+            lastError = error;
+            log('warn', errorLevel, `Failed with ${provider}: ${error.message}`);
+
+            // Tokens were already logged with each call
+            logTracking({
+                trackid: trackId,
+                provider,
+                itoken: 0,
+                otoken: 0,
+                ttoken: 0,
+                estimated_cost: 0,
+                started_at: startedAt,
+                elapsed_seconds: Date.now() - startedAt,
+                model,
+                request_type: 'structured',
+                caller,
+                error: error.message,
+                retry_count: retryCount,
+                attempt: providerAttempt,
+                metadata
+            });
+
+            if (requestSignal.signal.aborted) {
+                break;
+            }
+        }
+    }
+
+    requestSignal.dispose();
+
+    log('error', errorLevel, 'All providers failed', lastError);
+    throw lastError || new Error('All providers failed');
+}
+
+/**
+ * Generate streaming text using LLM with automatic fallback
+ * @param request Stream generation request configuration
+ * @returns AsyncGenerator yielding text chunks
+ */
+async function* generateStream(client: ClientContext, request: StreamGenerationRequest): AsyncGenerator<StreamLLMResponse> {
+    const config = {
+        ...clientDefaults(client),
+        ...request,
+        model: {
+            ...modelDefaults(client, 'text'),
+            ...request.model
+        }
+    };
+
+    const fallbackOrder = config.fallbackOrder || DEFAULT_CONFIG.fallbackOrder;
+    const errorLevel = config.errorLevel || 'quiet';
+    let lastError: Error | null = null;
+    
+    // Generate tracking ID and start timer
+    const trackId = generateTrackId();
+    const startedAt = Date.now();
+    const caller = request.caller || '[warning] no caller';
+    const metadata = requestMetadata(client, request);
+    let attemptCount = 0;
+    
+    log('info', errorLevel, `Starting generateStream with providers: ${fallbackOrder.join(', ')}`);
+
+    // Images are validated once here, so an invalid image fails the request instead of every provider and retry
+    try {
+        config.messages = await loadMessageImages(config.messages, fallbackOrder[0]);
+    } catch (error: any) {
+        log('error', errorLevel, 'Invalid image input', error);
+        yield {
+            type: 'error',
+            text: '',
+            provider: fallbackOrder[0],
+            model: config.model[fallbackOrder[0]] || 'unknown',
+            streamStatus: 'error' as const,
+            finishReason: 'error' as const,
+            error
+        };
+        return;
+    }
+    
+    const { adapters, skipError } = await prepareAdapters(client, fallbackOrder, config.model, errorLevel);
+    const context = guardContext(adapters, fallbackOrder, config, errorLevel);
+    const samplingError = guardSampling(adapters, fallbackOrder, config, errorLevel);
+    const documentError = guardDocuments(adapters, fallbackOrder, { ...config, messages: context.messages }, errorLevel);
+    lastError = documentError || samplingError || context.skipError || skipError;
+
+    // Caller's signal plus the overall timeout - once aborted, no further provider is tried
+    const requestSignal = createTimeoutSignal(config.signal, config.timeoutMs);
+
+    try {
+        const adapterOptions: AdapterTextOptions = {
+            tools: config.tools,
+            toolChoice: config.toolChoice,
+            documentFallback: config.documentFallback
+        };
+
+        // Shared across providers so executed tool rounds survive a fallback
+        const messages = [...context.messages];
+
+        // Text emitted before a provider failed, continued by the next provider in 'resume' mode
+        let resumedText = '';
+
+        // Filter out providers that don't support streaming or have no model
+        const streamingProviders = fallbackOrder.filter(p => adapters[p]?.generateStream && config.model[p]);
+    
+        for (const [index, provider] of streamingProviders.entries()) {
+            const model = config.model[provider];
+            if (!model || !adapters[provider]) continue;
+            const providerOptions: AdapterTextOptions = {
+                ...adapterOptions,
+                sampling: samplingOf(provider, config.sampling),
+                reasoning: reasoningOf(provider, model, config.reasoning)
+            };
+
+            const providerAttempt = attemptCount++;
+
+            try {
+                log('info', errorLevel, `Trying streaming with provider: ${provider} using model: ${model}`);
+                yield {
+                    type: 'start',
+                    text: '',
+                    provider,
+                    model,
+                    attempt: providerAttempt
+                };
+            
+                let fullText = '';
+                let streamUsage: AdapterUsage = { itoken: 0, otoken: 0, ttoken: 0, ctoken: 0 };
+                let finishReason: LLMFinishReason = 'stop';
+                let toolRounds = 0;
+                const attemptStartedAt = Date.now();
+                const retries = retriesFor(config.retry, fallbackOrder.indexOf(provider));
+                let retryCount = 0;
+
+                // Reply text joined across continuations, and the turns asking for them
+                let turnText = resumedText;
+                let continuationTurns: LLMMessage[] = resumedText ? continuationMessages(resumedText) : [];
+                let continuations = 0;
+            
+                // Create the appropriate stream based on provider
+                const createStream = (signal: AbortSignal) => (async function* () {
+                    const adapter = adapters[provider];
+                    if (!adapter.generateStream) {
+                        throw new Error(`Streaming not supported for ${provider}`);
+                    }
+                    yield* adapter.generateStream(
+                        model,
+                        config.system,
+                        [...messages, ...continuationTurns],
+                        config.maxToken,
+                        config.temperature,
+                        { ...providerOptions, signal }
+                    );
+                })();
+
+                // Yield chunks as they come
+                try {
+                    while (true) {
+                        let roundText = '';
+                        let roundThinking: LLMThinking[] = [];
+                        let toolCalls: LLMToolCall[] = [];
+                        let roundFinishReason: LLMFinishReason | undefined;
+
+                        // Like retryWithBackoff, but a round is only restarted while nothing of it has been yielded
+                        for (let retry = 0; ; retry++) {
+                            roundText = '';
+                            roundThinking = [];
+                            toolCalls = [];
+                            roundFinishReason = undefined;
+                            let yielded = false;
+                            const roundStartedAt = Date.now();
+
+                            claimAttempt(provider);
+
+                            // Aborted when the round ends, so leaving the caller's loop early also closes the upstream stream
+                            const attempt = createTimeoutSignal(requestSignal.signal, config.attemptTimeoutMs);
+                            try {
+                                for await (const chunk of withAbortStream(createStream(attempt.signal), attempt.signal, provider)) {
+                                    if (chunk.type === 'text' && chunk.text) {
+                                        fullText += chunk.text;
+                                        roundText += chunk.text;
+                                        turnText += chunk.text;
+                                        yielded = true;
+                                        yield {
+                                            type: 'delta',
+                                            text: chunk.text,
+                                            imageUrl: undefined,
+                                            data: undefined,
+                                            provider,
+                                            model,
+                                        };
+                                    } else if (chunk.type === 'thinking' && chunk.thinking) {
+                                        appendThinking(roundThinking, chunk.thinking);
+                                        if (chunk.thinking.text) {
+                                            yielded = true;
+                                            yield {
+                                                type: 'thinking',
+                                                text: '',
+                                                thinking: chunk.thinking.text,
+                                                provider,
+                                                model
+                                            };
+                                        }
+                                    } else if (chunk.type === 'tool_call' && chunk.toolCall) {
+                                        toolCalls.push(chunk.toolCall);
+                                    } else if (chunk.type === 'usage' && chunk.usage) {
+                                        streamUsage.itoken += chunk.usage.itoken;
+                                        streamUsage.otoken += chunk.usage.otoken;
+                                        streamUsage.ttoken += chunk.usage.ttoken;
+                                        streamUsage.ctoken = (streamUsage.ctoken || 0) + (chunk.usage.ctoken || 0);
+                                        yielded = true;
+                                        yield {
+                                            type: 'usage',
+                                            text: '',
+                                            provider,
+                                            model,
+                                            usage: toLLMUsage(streamUsage)
+                                        };
+                                    } else if (chunk.type === 'finish') {
+                                        roundFinishReason = chunk.finishReason;
+                                    }
+                                }
+                                break;
+                            } catch (error) {
+                                recordAttemptFailure(provider, model, requestSignal.signal, roundStartedAt, error);
+                                const delay = yielded ? undefined : retryDelay(error, retry, retries, config.retryPolicy, requestSignal.signal);
+                                if (delay === undefined) {
+                                    throw error;
+                                }
+                                await sleep(delay, requestSignal.signal);
+                                if (requestSignal.signal.aborted) {
+                                    throw abortError(requestSignal.signal, provider);
+                                }
+                                retryCount++;
+                                log('info', errorLevel, `Retrying ${provider} (attempt ${retry + 2})`);
+                            } finally {
+                                attempt.abort();
+                                attempt.dispose();
+                            }
+                        }
+
+                        finishReason = roundFinishReason || (toolCalls.length > 0 ? 'tool_call' : 'stop');
+
+                        if (config.autoContinue && finishReason === 'length' && toolCalls.length === 0 && continuations < config.maxContinuations) {
+                            continuations++;
+                            log('info', errorLevel, `Reply hit the token limit, requesting continuation ${continuations}`);
+                            continuationTurns.push(...continuationMessages(roundText));
+                            continue;
+                        }
+
+                        if (toolCalls.length === 0) {
+                            break;
+                        }
+
+                        // Surface the tool calls, whether or not they are executed here
+                        yield {
+                            type: 'tool_calls',
+                            text: '',
+                            imageUrl: undefined,
+                            data: undefined,
+                            provider,
+                            model,
+                            toolCalls
+                        };
+
+                        const canExecute = toolCalls.every(call => config.tools?.find(tool => tool.name === call.name)?.handler);
+                        if (!config.autoExecuteTools || !canExecute || toolRounds >= config.maxToolRounds) {
+                            break;
+                        }
+
+                        toolRounds++;
+                        log('info', errorLevel, `Executing tool calls (round ${toolRounds}): ${toolCalls.map(call => call.name).join(', ')}`);
+                        messages.push(toolCallMessage(turnText, toolCalls, roundThinking));
+                        messages.push(await executeToolCalls(config.tools || [], toolCalls));
+                        turnText = '';
+                        continuationTurns = [];
+                    }
+                
+                    log('info', errorLevel, `Stream completed successfully with provider: ${provider}`);
+                    recordSuccess(provider, model, Date.now() - attemptStartedAt);
+                
+                    // Log tracking data for successful streaming
+                    const finishedAt = Date.now();
+                    const estimatedCost = estimateCost(provider, model, streamUsage, 0, errorLevel);
+                    logTracking({
+                        trackid: trackId,
+                        provider,
+                        itoken: streamUsage.itoken,
+                        otoken: streamUsage.otoken,
+                        ttoken: streamUsage.ttoken,
+                        estimated_cost: estimatedCost,
+                        started_at: startedAt,
+                        elapsed_seconds: finishedAt - startedAt,
+                        model,
+                        request_type: 'stream',
+                        caller,
+                        retry_count: retryCount,
+                        continuations,
+                        attempt: providerAttempt,
+                        metadata
+                    });
+                
+                    requestSignal.dispose();
+
+                    // Final event with the totals of the stream
+                    yield {
+                        type: 'done',
+                        text: '',
+                        imageUrl: undefined,
+                        data: undefined,
+                        provider,
+                        model,
+                        streamStatus: 'done' as const,
+                        usage: toLLMUsage(streamUsage),
+                        finishReason,
+                        messages: toolRounds > 0 ? messages : undefined,
+                        estimatedCost
+                    };
+                    return; // Success - exit the function
+                
+                } catch (streamError) {
+                    // If error occurred during streaming, try next provider
+                    lastError = streamError instanceof Error ? streamError : new Error(String(streamError));
+                    log('warn', errorLevel, `Stream failed with ${provider}: ${lastError.message}`);
+                    logTracking({
+                        trackid: trackId,
+                        provider,
+                        itoken: streamUsage.itoken,
+                        otoken: streamUsage.otoken,
+                        ttoken: streamUsage.ttoken,
+                        estimated_cost: estimateCost(provider, model, streamUsage, 0, errorLevel),
+                        started_at: startedAt,
+                        elapsed_seconds: Date.now() - startedAt,
+                        model,
+                        request_type: 'stream',
+                        caller,
+                        error: lastError.message,
+                        retry_count: retryCount,
+                        attempt: providerAttempt,
+                        metadata
+                    });
+                
+                    const nextProvider = streamingProviders[index + 1];
+                    if (requestSignal.signal.aborted || !nextProvider) {
+                        break;
+                    }
+
+                    // Restarting would repeat or contradict the text the caller has already shown
+                    if (config.fallbackMode === 'restart_if_empty' && fullText) {
+                        log('warn', errorLevel, `Not falling back to ${nextProvider}: text was already emitted by ${provider}`);
+                        break;
+                    }
+
+                    if (config.fallbackMode === 'resume') {
+                        resumedText = turnText;
+                        if (resumedText) {
+                            log('info', errorLevel, `Resuming with ${nextProvider} after ${resumedText.length} emitted characters`);
+                        }
+                    }
+
+                    // Tell the caller that the text emitted so far is from a provider that failed
+                    yield {
+                        type: 'fallback',
+                        text: fullText,
+                        imageUrl: undefined,
+                        data: undefined,
+                        provider,
+                        model,
+                        streamStatus: 'error' as const,
+                        finishReason: 'error' as const,
+                        error: new LLMError(
+                            lastError.message,
+                            provider,
+                            (streamError as LLMError)?.code,
+                            (streamError as LLMError)?.statusCode
+                        ),
+                        nextProvider,
+                        nextModel: config.model[nextProvider] as string,
+                        resumed: !!resumedText
+                    };
+                    continue; // Try next provider
+                }
+            
+            } catch (error) {
+                lastError = error instanceof Error ? error : new Error(String(error));
+                log('warn', errorLevel, `Failed to initialize stream with ${provider}: ${lastError.message}`);
+            }
+        }
+
+        requestSignal.dispose();
+
+        // All providers failed
+        log('error', errorLevel, 'All streaming providers failed', lastError);
+        yield {
+            type: 'error',
+            text: '',
+            imageUrl: undefined,
+            data: undefined,
+            provider: streamingProviders[0] || 'google',
+            model: config.model[streamingProviders[0]] || 'unknown',
+            streamStatus: 'error' as const,
+            finishReason: 'error' as const,
+            error: new LLMError(
+                lastError?.message || 'All streaming providers failed',
+                streamingProviders[0] || 'google',
+                requestSignal.signal.aborted ? abortError(requestSignal.signal, streamingProviders[0] || 'google').code : 'STREAM_FAILED'
+            )
+        };
+    } finally {
+        // Also runs when the consumer leaves the generator early
+        requestSignal.dispose();
+    }
+}
+
+/**
+ * Generate structured data as a stream of partial data with automatic fallback
+ * @param request Structured data generation request configuration
+ * @returns AsyncGenerator yielding partial data, completed array elements and the final data
+ */
+async function* generateStructuredStream<T = any>(client: ClientContext, request: StructuredDataRequest): AsyncGenerator<StructuredStreamEvent<T>> {
+    const config = {
+        ...clientDefaults(client),
+        ...request,
+        model: {
+            ...modelDefaults(client, 'structured'),
+            ...request.model
+        }
+    };
+
+    const fallbackOrder = config.fallbackOrder || DEFAULT_CONFIG.fallbackOrder;
+    const errorLevel = config.errorLevel || 'quiet';
+    let lastError: Error | null = null;
+
+    const trackId = generateTrackId();
+    const startedAt = Date.now();
+    const caller = request.caller || '[warning] no caller';
+    const metadata = requestMetadata(client, request);
+    let attemptCount = 0;
+
+    log('info', errorLevel, `Starting generateStructuredStream with providers: ${fallbackOrder.join(', ')}`);
+
+    // Images are validated once here, so an invalid image fails the request instead of every provider and retry
+    try {
+        config.messages = await loadMessageImages(config.messages, fallbackOrder[0]);
+    } catch (error: any) {
+        log('error', errorLevel, 'Invalid image input', error);
+        yield { type: 'error', provider: fallbackOrder[0], model: config.model[fallbackOrder[0]] || 'unknown', error };
+        return;
+    }
+
+    const { adapters, skipError } = await prepareAdapters(client, fallbackOrder, config.model, errorLevel);
+    const context = guardContext(adapters, fallbackOrder, config, errorLevel);
+    const samplingError = guardSampling(adapters, fallbackOrder, config, errorLevel);
+    const documentError = guardDocuments(adapters, fallbackOrder, { ...config, messages: context.messages }, errorLevel);
+    lastError = documentError || samplingError || context.skipError || skipError;
+
+    // Caller's signal plus the overall timeout - once aborted, no further provider is tried
+    const requestSignal = createTimeoutSignal(config.signal, config.timeoutMs);
+
+    try {
+        const adapterOptions: AdapterTextOptions = {
+            responseSchema: config.schema,
+            responseSchemaName: config.schemaName,
+            documentFallback: config.documentFallback
+        };
+
+        // Filter out providers that don't support streaming or have no model
+        const streamingProviders = fallbackOrder.filter(p => adapters[p]?.generateStream && config.model[p]);
+
+        for (const [index, provider] of streamingProviders.entries()) {
+            const model = config.model[provider];
+            const adapter = adapters[provider];
+            if (!model || !adapter) continue;
+            const providerOptions: AdapterTextOptions = {
+                ...adapterOptions,
+                sampling: samplingOf(provider, config.sampling),
+                reasoning: reasoningOf(provider, model, config.reasoning)
+            };
+
+            const providerAttempt = attemptCount++;
+
+            // Tokens of every call to this provider, including repair turns
+            const providerUsage: AdapterUsage = { itoken: 0, otoken: 0, ttoken: 0, ctoken: 0 };
+
+            // Repair turns are only sent to the provider that produced the invalid data
+            const providerMessages = [...context.messages];
+            let repairAttempt = 0;
+            const retries = retriesFor(config.retry, fallbackOrder.indexOf(provider));
+            let retryCount = 0;
+
+            try {
+                log('info', errorLevel, `Trying structured streaming with provider: ${provider} using model: ${model}`);
+                yield { type: 'start', provider, model, attempt: providerAttempt };
+
+                while (true) {
+                    let text = '';
+                    let finishReason: LLMFinishReason | undefined;
+                    let data: T;
+
+                    // Like retryWithBackoff, but a stream is only restarted while nothing of it has been yielded
+                    for (let retry = 0; ; retry++) {
+                        text = '';
+                        finishReason = undefined;
+                        let partialJson = '';
+                        let elementCount = 0;
+                        let yielded = false;
+                        const attemptStartedAt = Date.now();
+
+                        claimAttempt(provider);
+                        const attempt = createTimeoutSignal(requestSignal.signal, config.attemptTimeoutMs);
+                        try {
+                            try {
+                                const stream = adapter.generateStream!(model, config.system, providerMessages, config.maxToken, config.temperature, { ...providerOptions, signal: attempt.signal });
+                                for await (const chunk of withAbortStream(stream, attempt.signal, provider)) {
+                                    if (chunk.type === 'text' && chunk.text) {
+                                        text += chunk.text;
+                                        const partial = parsePartialJson(text);
+
+                                        // Elements are listed in the order they closed, so the new ones are at the end
+                                        for (const element of partial.elements.slice(elementCount)) {
+                                            yielded = true;
+                                            yield { type: 'element', provider, model, ...element };
+                                        }
+                                        elementCount = partial.elements.length;
+
+                                        const json = JSON.stringify(partial.value);
+                                        if (partial.value !== undefined && json !== partialJson) {
+                                            partialJson = json;
+                                            yielded = true;
+                                            yield { type: 'partial', provider, model, data: partial.value };
+                                        }
+                                    } else if (chunk.type === 'usage' && chunk.usage) {
+                                        providerUsage.itoken += chunk.usage.itoken;
+                                        providerUsage.otoken += chunk.usage.otoken;
+                                        providerUsage.ttoken += chunk.usage.ttoken;
+                                        providerUsage.ctoken = (providerUsage.ctoken || 0) + (chunk.usage.ctoken || 0);
+                                    } else if (chunk.type === 'finish') {
+                                        finishReason = chunk.finishReason;
+                                    }
+                                }
+                            } catch (error) {
+                                recordAttemptFailure(provider, model, requestSignal.signal, attemptStartedAt, error);
+                                throw error;
+                            } finally {
+                                attempt.abort();
+                                attempt.dispose();
+                            }
+                            recordSuccess(provider, model, Date.now() - attemptStartedAt);
+
+                            log('info', errorLevel, 'Parsing JSON response...');
+                            data = removeNullOptionals(parseLLMJson<T>(text), config.schema);
+                            break;
+                        } catch (error) {
+                            const delay = yielded ? undefined : retryDelay(error, retry, retries, config.retryPolicy, requestSignal.signal);
+                            if (delay === undefined) {
+                                throw error;
+                            }
+                            await sleep(delay, requestSignal.signal);
+                            if (requestSignal.signal.aborted) {
+                                throw abortError(requestSignal.signal, provider);
+                            }
+                            retryCount++;
+                            log('info', errorLevel, `Retrying ${provider} (attempt ${retry + 2})`);
+                        }
+                    }
+
+                    const validationErrors = config.validate ? await validateStructuredData(data, config.validate) : [];
+                    if (validationErrors.length === 0) {
+                        log('info', errorLevel, `Structured stream completed successfully with provider: ${provider}`);
+                        const estimatedCost = estimateCost(provider, model, providerUsage, 0, errorLevel);
+                        logTracking({
+                            trackid: trackId,
+                            provider,
+                            itoken: providerUsage.itoken,
+                            otoken: providerUsage.otoken,
+                            ttoken: providerUsage.ttoken,
+                            estimated_cost: estimatedCost,
+                            started_at: startedAt,
+                            elapsed_seconds: Date.now() - startedAt,
+                            model,
+                            request_type: 'structured_stream',
+                            caller,
+                            retry_count: retryCount,
+                            repair_attempt: repairAttempt,
+                            attempt: providerAttempt,
+                            metadata
+                        });
+
+                        requestSignal.dispose();
+                        yield {
+                            type: 'done',
+                            provider,
+                            model,
+                            data,
+                            text,
+                            usage: toLLMUsage(providerUsage),
+                            finishReason: finishReason || 'stop',
+                            estimatedCost
+                        };
+                        return;
+                    }
+
+                    log('warn', errorLevel, `Validation failed with ${provider}: ${validationErrors.join('; ')}`);
+                    if (repairAttempt >= config.maxRepairAttempts) {
+                        throw new LLMError(`Structured data failed validation: ${validationErrors.join('; ')}`, provider, 'VALIDATION_FAILED');
+                    }
+
+                    repairAttempt++;
+                    log('info', errorLevel, `Sending repair request ${repairAttempt} to ${provider}`);
+                    providerMessages.push(
+                        { role: 'assistant', content: text },
+                        { role: 'user', content: buildRepairPrompt(validationErrors) }
+                    );
+                    yield { type: 'repair', provider, model, errors: validationErrors, repairAttempt };
+                }
+            } catch (error) {
+                lastError = error instanceof Error ? error : new Error(String(error));
+                log('warn', errorLevel, `Structured stream failed with ${provider}: ${lastError.message}`);
+                logTracking({
+                    trackid: trackId,
+                    provider,
+                    itoken: providerUsage.itoken,
+                    otoken: providerUsage.otoken,
+                    ttoken: providerUsage.ttoken,
+                    estimated_cost: estimateCost(provider, model, providerUsage, 0, errorLevel),
+                    started_at: startedAt,
+                    elapsed_seconds: Date.now() - startedAt,
+                    model,
+                    request_type: 'structured_stream',
+                    caller,
+                    error: lastError.message,
+                    retry_count: retryCount,
+                    repair_attempt: repairAttempt,
+                    attempt: providerAttempt,
+                    metadata
+                });
+
+                const nextProvider = streamingProviders[index + 1];
+                if (requestSignal.signal.aborted || !nextProvider) {
+                    break;
+                }
+
+                yield {
+                    type: 'fallback',
+                    provider,
+                    model,
+                    error: new LLMError(
+                        lastError.message,
+                        provider,
+                        (error as LLMError)?.code,
+                        (error as LLMError)?.statusCode
+                    ),
+                    nextProvider,
+                    nextModel: config.model[nextProvider] as string
+                };
+            }
+        }
+
+        requestSignal.dispose();
+
+        // All providers failed
+        log('error', errorLevel, 'All structured streaming providers failed', lastError);
+        const provider = streamingProviders[0] || 'google';
+        yield {
+            type: 'error',
+            provider,
+            model: config.model[provider] || 'unknown',
+            error: lastError instanceof LLMError && !requestSignal.signal.aborted ? lastError : new LLMError(
+                lastError?.message || 'All structured streaming providers failed',
+                provider,
+                requestSignal.signal.aborted ? abortError(requestSignal.signal, provider).code : 'STREAM_FAILED'
+            )
+        };
+    } finally {
+        // Also runs when the consumer leaves the generator early
+        requestSignal.dispose();
+    }
+}
+
+/**
+ * Count the prompt tokens of a request
+ * @param request Provider, model, system prompt and messages
+ * @returns The provider's count, or a local estimate when the provider has no count endpoint or it fails
+ */
+async function countTokens(client: ClientContext, request: TokenCountRequest): Promise<TokenCount> {
+    const errorLevel = request.errorLevel || client.config.defaults?.errorLevel || 'quiet';
+    const system = request.system || '';
+    const contextWindow = getModelContextWindow(request.provider, request.model);
+
+    if (!getProvider(request.provider)) {
+        throw new LLMError(`Unknown provider: ${request.provider}`, request.provider, 'UNKNOWN_PROVIDER');
+    }
+
+    try {
+        const adapter = getAdapter(client, request.provider);
+        if (adapter.countTokens) {
+            const tokens = await adapter.countTokens(request.model, system, request.messages, request.signal);
+            return { tokens, estimated: false, contextWindow };
+        }
+    } catch (error: any) {
+        if (request.signal?.aborted) {
+            throw error;
+        }
+        log('warn', errorLevel, `Token count of ${request.provider} failed, using the local estimate: ${error.message}`);
+    }
+
+    return { tokens: estimateTokens(system, request.messages), estimated: true, contextWindow };
+}
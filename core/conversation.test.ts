@@ -0,0 +1,129 @@
+import { createConversation, getMockCalls, LLMMessage, resetMock, setMockResponses, unregisterTrackingSink } from '../index';
+
+const titleCall = { id: 'call_1', name: 'get_title', arguments: { titleId: 't1' } };
+
+const options = {
+    system: 'You answer questions about titles.',
+    model: { mock: 'chat' },
+    fallbackOrder: ['mock'] as const,
+    tools: [{
+        name: 'get_title',
+        parameters: { type: 'object', properties: { titleId: { type: 'string' } } },
+        handler: async ({ titleId }: { titleId: string }) => ({ titleId, name: 'Night Shift' })
+    }],
+    autoExecuteTools: true,
+    errorLevel: 'error' as const
+};
+
+// History a turn that called get_title once and then answered leaves behind
+const toolTurn: LLMMessage[] = [
+    { role: 'user', content: 'What is t1 called?' },
+    { role: 'assistant', content: [{ type: 'text', text: 'Looking it up.' }, { type: 'tool_call', toolCall: titleCall }] },
+    { role: 'user', content: [{ type: 'tool_result', toolResult: { id: 'call_1', name: 'get_title', content: '{"titleId":"t1","name":"Night Shift"}' } }] },
+    { role: 'assistant', content: 'It is called Night Shift.' }
+];
+
+async function drain(stream: AsyncIterable<any>): Promise<any[]> {
+    const events: any[] = [];
+    for await (const event of stream) {
+        events.push(event);
+    }
+    return events;
+}
+
+beforeAll(() => {
+    unregisterTrackingSink('console');
+});
+
+beforeEach(() => {
+    resetMock();
+});
+
+describe('Conversation', () => {
+    it('keeps the turns and sends the history with each turn', async () => {
+        setMockResponses('chat', [{ text: 'Hello!' }, { text: 'Still here.' }]);
+        const conversation = createConversation({ ...options, tools: undefined });
+
+        await conversation.send('Hi');
+        await conversation.send('Are you there?');
+
+        expect(conversation.messages).toEqual([
+            { role: 'user', content: 'Hi' },
+            { role: 'assistant', content: 'Hello!' },
+            { role: 'user', content: 'Are you there?' },
+            { role: 'assistant', content: 'Still here.' }
+        ]);
+        expect(getMockCalls()[1].messages).toEqual(conversation.messages.slice(0, 3));
+    });
+
+    it('keeps the tool rounds executed by send', async () => {
+        setMockResponses('chat', [{ text: 'Looking it up.', toolCalls: [titleCall] }, { text: 'It is called Night Shift.' }]);
+        const conversation = createConversation(options);
+
+        await conversation.send('What is t1 called?');
+
+        expect(conversation.messages).toEqual(toolTurn);
+    });
+
+    it('keeps the tool rounds executed by stream', async () => {
+        setMockResponses('chat', [{ chunks: ['Looking ', 'it up.'], toolCalls: [titleCall] }, { chunks: ['It is called ', 'Night Shift.'] }]);
+        const conversation = createConversation(options);
+
+        const events = await drain(conversation.stream('What is t1 called?'));
+
+        expect(events[events.length - 1]).toMatchObject({ type: 'done', finishReason: 'stop' });
+        expect(conversation.messages).toEqual(toolTurn);
+    });
+
+    it('keeps tool calls left for the caller', async () => {
+        setMockResponses('chat', { text: 'Looking it up.', toolCalls: [titleCall] });
+        const conversation = createConversation({ ...options, autoExecuteTools: false });
+
+        await drain(conversation.stream('What is t1 called?'));
+
+        expect(conversation.messages).toEqual(toolTurn.slice(0, 2));
+    });
+
+    it('leaves the history unchanged when a turn fails or is abandoned', async () => {
+        setMockResponses('chat', [{ error: 'server_error' }, { chunks: ['Partial', ' reply'] }]);
+        const conversation = createConversation({ ...options, tools: undefined });
+
+        await expect(conversation.send('Hi', { retry: 0 })).rejects.toThrow();
+        for await (const event of conversation.stream('Hi')) {
+            if (event.type === 'delta') break;
+        }
+
+        expect(conversation.messages).toEqual([]);
+    });
+
+    it('continues from a saved state', async () => {
+        setMockResponses('chat', { text: 'Yes, Night Shift.' });
+        const saved = JSON.stringify({ system: options.system, messages: toolTurn });
+
+        const conversation = createConversation({ ...options, system: undefined, state: saved });
+        await conversation.send('Sure?');
+
+        expect(conversation.system).toBe(options.system);
+        expect(getMockCalls()[0].messages).toEqual([...toolTurn, { role: 'user', content: 'Sure?' }]);
+    });
+
+    it('summarizes older turns once the history grows past the limit', async () => {
+        setMockResponses('chat', [{ text: 'First reply' }, { text: 'Second reply' }]);
+        setMockResponses('summary', { text: 'The user said hello.' });
+        const conversation = createConversation({
+            ...options,
+            tools: undefined,
+            summarization: { model: { mock: 'summary' }, maxHistoryTokens: 1, keepRecentMessages: 1 }
+        });
+
+        await conversation.send('Hello there');
+        await conversation.send('Next question');
+
+        expect(conversation.summary).toBe('The user said hello.');
+        expect(conversation.messages).toEqual([
+            { role: 'user', content: 'Next question' },
+            { role: 'assistant', content: 'Second reply' }
+        ]);
+        expect(getMockCalls()[2].system).toContain('The user said hello.');
+    });
+});
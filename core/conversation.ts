@@ -0,0 +1,266 @@
+import { LLMMessage, LLMResponse, LLMProvider, StreamLLMResponse, TextGenerationRequest, StreamGenerationRequest } from '../index';
+import type { LLMClient } from './client';
+import { estimateTokens } from './tokens';
+import { log, toolCallMessage, isPlainUserTurn } from '../utils';
+
+// Conversations - a system prompt and turn history sent through a client, with older turns summarized
+
+// Everything needed to continue a conversation, JSON-serializable for storage
+export type ConversationState = {
+    system: string;
+    summary?: string; // Summary of the turns that were compacted
+    messages: LLMMessage[];
+}
+
+// When and how older turns are replaced by a summary
+export type ConversationSummarization = {
+    model: TextGenerationRequest['model']; // Cheap model that writes the summary
+    fallbackOrder?: LLMProvider[]; // Default the conversation's fallback order
+    maxHistoryTokens: number; // Estimated tokens of system prompt, summary and history that trigger compaction
+    keepRecentMessages?: number; // Latest messages that are never summarized (default 6)
+    maxToken?: number; // Length limit of the summary (default 1024)
+}
+
+// Request options of every turn, a turn can override them
+export type ConversationTurnOptions = Omit<TextGenerationRequest & StreamGenerationRequest, 'system' | 'messages' | 'model'> & {
+    model?: TextGenerationRequest['model'];
+}
+
+export type ConversationOptions = ConversationTurnOptions & {
+    system?: string; // Required unless restored from a state, replaces the state's system prompt when set
+    state?: ConversationState | string; // Conversation to continue, as returned by toJSON or its JSON string
+    summarization?: ConversationSummarization; // Default the history grows without limit
+}
+
+export type Conversation = {
+    readonly system: string;
+    readonly summary: string | undefined;
+    readonly messages: LLMMessage[]; // Copy of the history
+    send(content: LLMMessage['content'], options?: ConversationTurnOptions): Promise<LLMResponse>;
+    stream(content: LLMMessage['content'], options?: ConversationTurnOptions): AsyncGenerator<StreamLLMResponse>;
+    compact(options?: ConversationTurnOptions): Promise<boolean>; // Summarize older turns now, false if there were none
+    toJSON(): ConversationState;
+}
+
+const DEFAULT_KEEP_RECENT_MESSAGES = 6;
+const DEFAULT_SUMMARY_MAX_TOKEN = 1024;
+
+const SUMMARY_SYSTEM_PROMPT = `You summarize conversations between a user and an AI assistant so the assistant can continue them without the full history.
+Keep facts, names, numbers, decisions, the user's preferences and open questions. Leave out greetings and small talk.
+Write the summary in the language of the conversation. Reply with the summary only.`;
+
+/**
+ * Create a conversation that keeps its history between turns
+ * @param client Client that sends the turns and summaries
+ * @param options System prompt or saved state, turn defaults and summarization
+ * @returns Conversation - turns must not overlap
+ */
+export function createConversation(client: LLMClient, options: ConversationOptions): Conversation {
+    const { system: systemOption, state: stateOption, summarization, ...turnDefaults } = options;
+    const state: Partial<ConversationState> = typeof stateOption === 'string' ? JSON.parse(stateOption) : stateOption || {};
+    const system = systemOption ?? state.system;
+    if (system === undefined) {
+        throw new Error('createConversation needs a system prompt or a state to restore');
+    }
+
+    let summary = state.summary;
+    let messages: LLMMessage[] = [...(state.messages || [])];
+    let busy = false;
+
+    const turnRequest = (turnOptions: ConversationTurnOptions = {}) => ({
+        ...turnDefaults,
+        ...turnOptions,
+        model: { ...turnDefaults.model, ...turnOptions.model },
+        system: summary ? `${system}\n\nSummary of the earlier conversation:\n${summary}` : system,
+        messages: [...messages]
+    });
+
+    // Summarize everything before the latest messages, starting the kept part at a plain user turn
+    const compact = async (turnOptions: ConversationTurnOptions = {}): Promise<boolean> => {
+        if (!summarization) {
+            return false;
+        }
+        let split = Math.max(0, messages.length - (summarization.keepRecentMessages ?? DEFAULT_KEEP_RECENT_MESSAGES));
+        while (split > 0 && split < messages.length - 1 && !isPlainUserTurn(messages[split])) {
+            split++;
+        }
+        if (split === 0) {
+            return false;
+        }
+
+        const compacted = messages.slice(0, split);
+        const response = await client.generateText({
+            model: summarization.model,
+            fallbackOrder: summarization.fallbackOrder ?? turnOptions.fallbackOrder ?? turnDefaults.fallbackOrder,
+            system: SUMMARY_SYSTEM_PROMPT,
+            messages: [{ role: 'user', content: transcriptOf(summary, compacted) }],
+            maxToken: summarization.maxToken ?? DEFAULT_SUMMARY_MAX_TOKEN,
+            errorLevel: turnOptions.errorLevel ?? turnDefaults.errorLevel,
+            caller: turnOptions.caller ?? turnDefaults.caller,
+            metadata: { ...turnDefaults.metadata, ...turnOptions.metadata },
+            signal: turnOptions.signal
+        });
+
+        // Turns added while the summary was written stay in the history
+        summary = response.text || summary;
+        messages = messages.filter(message => !compacted.includes(message));
+        return true;
+    };
+
+    // Compaction failures do not fail the turn, the history may still fit
+    const compactIfNeeded = async (turnOptions: ConversationTurnOptions = {}) => {
+        if (!summarization) {
+            return;
+        }
+        const request = turnRequest(turnOptions);
+        if (estimateTokens(request.system, request.messages) <= summarization.maxHistoryTokens) {
+            return;
+        }
+        try {
+            await compact(turnOptions);
+        } catch (error: any) {
+            if (turnOptions.signal?.aborted) {
+                throw error;
+            }
+            log('warn', turnOptions.errorLevel ?? turnDefaults.errorLevel, `Failed to summarize the conversation, sending the full history: ${error.message}`);
+        }
+    };
+
+    const startTurn = (content: LLMMessage['content']): LLMMessage => {
+        if (busy) {
+            throw new Error('A conversation turn is already in progress');
+        }
+        busy = true;
+        const userMessage: LLMMessage = { role: 'user', content };
+        messages.push(userMessage);
+        return userMessage;
+    };
+
+    // Drop the user turn of a failed or abandoned turn
+    const rollback = (userMessage: LLMMessage) => {
+        const index = messages.lastIndexOf(userMessage);
+        if (index !== -1) {
+            messages.splice(index);
+        }
+    };
+
+    return {
+        get system() {
+            return system;
+        },
+        get summary() {
+            return summary;
+        },
+        get messages() {
+            return [...messages];
+        },
+
+        send: async (content, turnOptions = {}) => {
+            const userMessage = startTurn(content);
+            try {
+                await compactIfNeeded(turnOptions);
+                const response = await client.generateText(turnRequest(turnOptions));
+
+                // Tool rounds executed with autoExecuteTools follow the user turn in response.messages
+                const toolRounds = response.messages ? response.messages.slice(response.messages.lastIndexOf(userMessage) + 1) : [];
+                messages.push(...toolRounds);
+                messages.push(response.toolCalls?.length
+                    ? toolCallMessage(response.text || '', response.toolCalls)
+                    : { role: 'assistant', content: response.text || '' });
+                return response;
+            } catch (error) {
+                rollback(userMessage);
+                throw error;
+            } finally {
+                busy = false;
+            }
+        },
+
+        stream: async function* (content, turnOptions = {}) {
+            const userMessage = startTurn(content);
+            let done = false;
+            try {
+                await compactIfNeeded(turnOptions);
+                // Text of the current round, and the text and calls of the last round that called tools
+                let text = '';
+                let callText = '';
+                let toolCalls: StreamLLMResponse['toolCalls'] = [];
+
+                for await (const event of client.generateStream(turnRequest(turnOptions))) {
+                    if (event.type === 'delta') {
+                        text += event.text;
+                    } else if (event.type === 'tool_calls') {
+                        callText = text;
+                        text = '';
+                        toolCalls = event.toolCalls;
+                    } else if (event.type === 'fallback' && !event.resumed) {
+                        text = '';
+                        callText = '';
+                        toolCalls = [];
+                    } else if (event.type === 'done') {
+                        // Tool rounds executed with autoExecuteTools follow the user turn in event.messages, as in send
+                        const toolRounds = event.messages ? event.messages.slice(event.messages.lastIndexOf(userMessage) + 1) : [];
+                        messages.push(...toolRounds);
+                        messages.push(event.finishReason === 'tool_call' && toolCalls.length
+                            ? toolCallMessage(callText, toolCalls)
+                            : { role: 'assistant', content: text });
+                        done = true;
+                    }
+                    yield event;
+                }
+            } finally {
+                if (!done) {
+                    rollback(userMessage);
+                }
+                busy = false;
+            }
+        },
+
+        compact: async (turnOptions) => {
+            if (busy) {
+                throw new Error('A conversation turn is already in progress');
+            }
+            busy = true;
+            try {
+                return await compact(turnOptions);
+            } finally {
+                busy = false;
+            }
+        },
+
+        // Buffer images are stored as base64, Buffer.toJSON runs before the replacer
+        toJSON: () => JSON.parse(JSON.stringify({ system, summary, messages }, (_key, value) =>
+            value?.type === 'Buffer' && Array.isArray(value.data) ? Buffer.from(value.data).toString('base64') : value))
+    };
+}
+
+// Plain-text transcript of the turns to summarize, after the previous summary
+function transcriptOf(summary: string | undefined, messages: LLMMessage[]): string {
+    const turns = messages.map(message => {
+        const speaker = message.role === 'assistant' ? 'Assistant' : 'User';
+        if (typeof message.content === 'string') {
+            return `${speaker}: ${message.content}`;
+        }
+        const parts = message.content.map(part => {
+            if (part.type === 'text') {
+                return part.text || '';
+            } else if (part.type === 'image') {
+                return '[image]';
+            } else if (part.type === 'document') {
+                return part.document?.name ? `[document ${part.document.name}]` : '[document]';
+            } else if (part.type === 'tool_call' && part.toolCall) {
+                return `[called ${part.toolCall.name} with ${JSON.stringify(part.toolCall.arguments)}]`;
+            } else if (part.type === 'tool_result' && part.toolResult) {
+                return `[${part.toolResult.name} returned ${part.toolResult.content}]`;
+            }
+            return '';
+        });
+        return `${speaker}: ${parts.filter(Boolean).join(' ')}`;
+    });
+
+    return [
+        ...(summary ? [`Summary of the conversation so far:\n${summary}`, ''] : []),
+        'Summarize this conversation:',
+        ...turns
+    ].join('\n');
+}
@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { generateText, getMockCalls, LLMMessage, registerProvider, resetMock, unregisterProvider, unregisterTrackingSink } from '../index';
+import { MockAdapter } from '../adapters/mock';
+import { documentTypeOf } from './documents';
+
+// Smallest PDF with one page showing its text
+function pdf(text: string): Buffer {
+    const stream = `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>'
+    ];
+    let body = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+        const offset = body.length;
+        body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+    const xref = body.length;
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')}`;
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(body, 'latin1');
+}
+
+function documentMessage(document: any): LLMMessage {
+    return { role: 'user', content: [{ type: 'text', text: 'Summarize this' }, { type: 'document', document }] };
+}
+
+// Content parts the mock provider received in its last call
+const receivedParts = () => getMockCalls().pop()!.messages![0].content as any[];
+
+const request = {
+    model: { reader: 'reader', mock: 'native' },
+    system: '',
+    fallbackOrder: ['reader', 'mock'],
+    retry: 0,
+    errorLevel: 'error' as const
+};
+
+beforeAll(() => {
+    unregisterTrackingSink('console');
+    // A provider without document support
+    registerProvider('reader', () => new MockAdapter());
+});
+
+afterAll(() => {
+    unregisterProvider('reader');
+});
+
+beforeEach(() => {
+    resetMock();
+});
+
+describe('documentTypeOf', () => {
+    it('detects PDFs from inline content or the file extension', () => {
+        expect(documentTypeOf({ source: pdf('Hello') })).toBe('application/pdf');
+        expect(documentTypeOf({ source: pdf('Hello').toString('base64') })).toBe('application/pdf');
+        expect(documentTypeOf({ source: { path: './contract.PDF' } })).toBe('application/pdf');
+        expect(documentTypeOf({ source: { path: './script' }, mimeType: 'application/pdf' })).toBe('application/pdf');
+        expect(documentTypeOf({ source: Buffer.from('Scene 1') })).toBe('text/plain');
+    });
+});
+
+describe('document input', () => {
+    it('sends documents natively to providers that accept them', async () => {
+        const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'documents-')), 'contract.pdf');
+        await fs.writeFile(file, pdf('Hello'));
+
+        await generateText({ ...request, fallbackOrder: ['mock'], messages: [documentMessage({ source: { path: file } })] });
+
+        expect(receivedParts()[1]).toEqual({
+            type: 'document',
+            document: { source: pdf('Hello').toString('base64'), mimeType: 'application/pdf', name: 'contract.pdf' }
+        });
+    });
+
+    it('sends plain-text documents as a text part to providers without document support', async () => {
+        const response = await generateText({ ...request, messages: [documentMessage({ source: Buffer.from('Scene 1'), name: 'episode-12.txt' })] });
+
+        expect(response.provider).toBe('reader');
+        expect(receivedParts()[1]).toEqual({ type: 'text', text: '<document name="episode-12.txt">\nScene 1\n</document>' });
+    });
+
+    it('skips providers that do not accept PDFs', async () => {
+        const response = await generateText({ ...request, messages: [documentMessage({ source: pdf('Hello') })] });
+
+        expect(response.provider).toBe('mock');
+        expect(getMockCalls()).toHaveLength(1);
+        await expect(generateText({ ...request, fallbackOrder: ['reader'], messages: [documentMessage({ source: pdf('Hello') })] }))
+            .rejects.toMatchObject({ code: 'UNSUPPORTED_DOCUMENT' });
+    });
+
+    it('sends the text of PDFs with extract_text', async () => {
+        const response = await generateText({ ...request, documentFallback: 'extract_text', messages: [documentMessage({ source: pdf('Hello PDF'), name: 'contract.pdf' })] });
+
+        expect(response.provider).toBe('reader');
+        expect(receivedParts()[1]).toEqual({ type: 'text', text: '<document name="contract.pdf">\nHello PDF\n</document>' });
+    });
+
+    it('fails for documents that are not a PDF or plain text', async () => {
+        const docx = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0x00, 0x00]);
+
+        await expect(generateText({ ...request, fallbackOrder: ['mock'], messages: [documentMessage({ source: docx })] }))
+            .rejects.toMatchObject({ code: 'INVALID_DOCUMENT' });
+        await expect(generateText({ ...request, fallbackOrder: ['mock'], messages: [documentMessage({ source: 'not base64!' })] }))
+            .rejects.toMatchObject({ code: 'INVALID_DOCUMENT' });
+    });
+});
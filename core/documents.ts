@@ -0,0 +1,156 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { DocumentFallback, DocumentMimeType, LLMDocument, LLMError, LLMMessage, LLMProvider } from '../index';
+import { ProviderAdapter } from '../types';
+import { isValidBase64 } from '../utils';
+
+// Document input - document parts are loaded, labeled and sent natively or as their text
+
+type DocumentData = {
+    data: Buffer;
+    mimeType: DocumentMimeType;
+    name?: string;
+}
+
+// pdf-parse 1.x, an optional dependency loaded on first use
+type PdfParse = (data: Uint8Array) => Promise<{ text: string }>;
+
+// Largest document read from a file, the request size limit of Anthropic
+const MAX_DOCUMENT_BYTES = 32 * 1024 * 1024;
+
+// "%PDF-" and its base64 encoding
+const PDF_MAGIC = Buffer.from('%PDF-');
+const PDF_MAGIC_BASE64 = 'JVBERi0';
+
+let pdfParseModule: PdfParse | null | undefined;
+
+function loadPdfParse(): PdfParse | null {
+    if (pdfParseModule === undefined) {
+        try {
+            pdfParseModule = require('pdf-parse');
+        } catch {
+            pdfParseModule = null;
+        }
+    }
+    return pdfParseModule!;
+}
+
+/**
+ * Type of a document without reading its file, used to choose providers before the call
+ * @returns The set mimeType, else the type detected from inline content or the file extension
+ */
+export function documentTypeOf(document: LLMDocument | undefined): DocumentMimeType {
+    if (!document || document.mimeType) {
+        return document?.mimeType || 'text/plain';
+    }
+    const { source } = document;
+    if (Buffer.isBuffer(source)) {
+        return source.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC) ? 'application/pdf' : 'text/plain';
+    }
+    if (typeof source === 'string') {
+        return /^data:application\/pdf[;,]/i.test(source) || source.startsWith(PDF_MAGIC_BASE64) ? 'application/pdf' : 'text/plain';
+    }
+    return path.extname(source.path).toLowerCase() === '.pdf' ? 'application/pdf' : 'text/plain';
+}
+
+// Load a document and detect its type from the content
+async function loadDocument(document: LLMDocument | undefined, provider: LLMProvider): Promise<DocumentData> {
+    if (!document) {
+        throw new LLMError('Invalid document: missing document', provider, 'INVALID_DOCUMENT');
+    }
+
+    let data: Buffer;
+    let name = document.name;
+    if (Buffer.isBuffer(document.source)) {
+        data = document.source;
+    } else if (typeof document.source === 'string') {
+        const base64 = document.source.replace(/^data:[^,]*;base64,/, '').replace(/\s/g, '');
+        if (!isValidBase64(base64)) {
+            throw new LLMError('Invalid document: expected base64 data or a base64 data URL', provider, 'INVALID_DOCUMENT');
+        }
+        data = Buffer.from(base64, 'base64');
+    } else {
+        const filePath = document.source.path;
+        name = name ?? path.basename(filePath);
+        try {
+            const stats = await fs.stat(filePath);
+            if (stats.size > MAX_DOCUMENT_BYTES) {
+                throw new Error(`larger than ${MAX_DOCUMENT_BYTES} bytes`);
+            }
+            data = await fs.readFile(filePath);
+        } catch (error: any) {
+            throw new LLMError(`Failed to read document ${filePath}: ${error.message}`, provider, 'INVALID_DOCUMENT');
+        }
+    }
+
+    if (data.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC)) {
+        return { data, mimeType: 'application/pdf', name };
+    }
+    // Text files have no NUL bytes, binary formats like DOCX almost always do
+    if (data.includes(0)) {
+        throw new LLMError(`Invalid document${name ? ` ${name}` : ''}: not a PDF or plain-text file`, provider, 'INVALID_DOCUMENT');
+    }
+    return { data, mimeType: 'text/plain', name };
+}
+
+// Text of a document, for providers that do not accept its type
+async function documentText(document: DocumentData, provider: LLMProvider): Promise<string> {
+    if (document.mimeType === 'text/plain') {
+        return document.data.toString('utf8');
+    }
+    const pdfParse = loadPdfParse();
+    if (!pdfParse) {
+        throw new LLMError(`${provider} does not accept PDF documents. Install pdf-parse to send their text.`, provider, 'UNSUPPORTED_DOCUMENT');
+    }
+    try {
+        // Copied, the pdf.js of pdf-parse reads the whole ArrayBuffer and ignores the offset of small pooled Buffers
+        return (await pdfParse(new Uint8Array(document.data))).text.trim();
+    } catch (error: any) {
+        throw new LLMError(`Failed to extract the text of document${document.name ? ` ${document.name}` : ''}: ${error.message}`, provider, 'INVALID_DOCUMENT');
+    }
+}
+
+// Messages with every document part loaded, as a document the provider accepts or as a text part
+async function convertMessageDocuments(
+    messages: LLMMessage[],
+    provider: LLMProvider,
+    formats: DocumentMimeType[],
+    fallback: DocumentFallback
+): Promise<LLMMessage[]> {
+    return Promise.all(messages.map(async message => {
+        if (typeof message.content === 'string' || !message.content.some(part => part.type === 'document')) {
+            return message;
+        }
+        const content = await Promise.all(message.content.map(async part => {
+            if (part.type !== 'document') {
+                return part;
+            }
+            const document = await loadDocument(part.document, provider);
+            if (formats.includes(document.mimeType)) {
+                return { ...part, document: { source: document.data.toString('base64'), mimeType: document.mimeType, name: document.name } };
+            }
+            // A PDF named or encoded like a text file gets past the pre-flight check
+            if (document.mimeType === 'application/pdf' && fallback !== 'extract_text') {
+                throw new LLMError(`${provider} does not accept PDF documents`, provider, 'UNSUPPORTED_DOCUMENT');
+            }
+            const text = await documentText(document, provider);
+            return { type: 'text' as const, text: `<document${document.name ? ` name="${document.name}"` : ''}>\n${text}\n</document>` };
+        }));
+        return { ...message, content };
+    }));
+}
+
+// The adapter of a provider with document parts converted before each call
+export function withDocumentInput(provider: LLMProvider, formats: DocumentMimeType[] = [], adapter: ProviderAdapter): ProviderAdapter {
+    return {
+        generateText: adapter.generateText && (async (model, system, messages, maxTokens, temperature, options) =>
+            adapter.generateText!(model, system, await convertMessageDocuments(messages, provider, formats, options?.documentFallback ?? 'skip'), maxTokens, temperature, options)),
+        generateStream: adapter.generateStream && (async function* (model, system, messages, maxTokens, temperature, options) {
+            yield* adapter.generateStream!(model, system, await convertMessageDocuments(messages, provider, formats, options?.documentFallback ?? 'skip'), maxTokens, temperature, options);
+        }),
+        generateImage: adapter.generateImage && (options => adapter.generateImage!(options)),
+        // Counting has no request options, PDFs are counted by their text
+        countTokens: adapter.countTokens && (async (model, system, messages, signal) =>
+            adapter.countTokens!(model, system, await convertMessageDocuments(messages, provider, formats, 'extract_text'), signal))
+    };
+}
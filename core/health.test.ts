@@ -0,0 +1,115 @@
+import { circuitState, claimProbe, configureCircuitBreaker, getProviderHealth, isCircuitOpen, recordFailure, recordSuccess, resetProviderHealth } from './health';
+
+const outage = new Error('Internal server error');
+
+function fail(times: number): void {
+    for (let i = 0; i < times; i++) {
+        recordFailure('google', 'gemini-2.5-flash', 100, outage);
+    }
+}
+
+beforeEach(() => {
+    jest.useFakeTimers();
+    configureCircuitBreaker({ enabled: true, windowMs: 60000, minRequests: 4, errorRateThreshold: 0.5, cooldownMs: 30000 });
+    resetProviderHealth();
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('circuit breaker', () => {
+    it('opens once the error rate reaches the threshold after minRequests', () => {
+        fail(3);
+        expect(circuitState('google')).toBe('closed');
+
+        recordSuccess('google', 'gemini-2.5-flash', 100);
+        fail(1);
+        expect(circuitState('google')).toBe('open');
+        expect(isCircuitOpen('google')).toBe(true);
+    });
+
+    it('stays closed while the error rate is below the threshold', () => {
+        recordSuccess('google', 'gemini-2.5-flash', 100);
+        recordSuccess('google', 'gemini-2.5-flash', 100);
+        recordSuccess('google', 'gemini-2.5-flash', 100);
+        fail(1);
+
+        expect(circuitState('google')).toBe('closed');
+        expect(getProviderHealth('google')[0]).toMatchObject({ requests: 4, failures: 1, errorRate: 0.25, avgLatencyMs: 100 });
+    });
+
+    it('only counts failures inside the window', () => {
+        fail(3);
+        jest.advanceTimersByTime(60001);
+        fail(1);
+
+        expect(circuitState('google')).toBe('closed');
+        expect(getProviderHealth('google')[0].requests).toBe(1);
+    });
+
+    it('lets a single probe through after the cooldown', () => {
+        fail(4);
+        jest.advanceTimersByTime(30000);
+
+        expect(circuitState('google')).toBe('half_open');
+        expect(isCircuitOpen('google')).toBe(false);
+        expect(isCircuitOpen('google')).toBe(false);
+
+        expect(claimProbe('google')).toBe(true);
+        expect(isCircuitOpen('google')).toBe(true);
+        expect(claimProbe('google')).toBe(false);
+    });
+
+    it('closes when the probe succeeds', () => {
+        fail(4);
+        jest.advanceTimersByTime(30000);
+        claimProbe('google');
+
+        recordSuccess('google', 'gemini-2.5-flash', 100);
+
+        expect(circuitState('google')).toBe('closed');
+        expect(isCircuitOpen('google')).toBe(false);
+        expect(getProviderHealth('google')[0]).toMatchObject({ requests: 1, failures: 0 });
+    });
+
+    it('opens again for another cooldown when the probe fails', () => {
+        fail(4);
+        jest.advanceTimersByTime(30000);
+        claimProbe('google');
+
+        fail(1);
+        expect(circuitState('google')).toBe('open');
+        jest.advanceTimersByTime(29999);
+        expect(isCircuitOpen('google')).toBe(true);
+        jest.advanceTimersByTime(1);
+        expect(isCircuitOpen('google')).toBe(false);
+    });
+
+    it('gives up a probe without a result after another cooldown', () => {
+        fail(4);
+        jest.advanceTimersByTime(30000);
+        claimProbe('google');
+
+        jest.advanceTimersByTime(29999);
+        expect(isCircuitOpen('google')).toBe(true);
+        jest.advanceTimersByTime(1);
+        expect(isCircuitOpen('google')).toBe(false);
+    });
+
+    it('never skips providers when disabled, but keeps tracking health', () => {
+        configureCircuitBreaker({ enabled: false });
+        fail(4);
+
+        expect(circuitState('google')).toBe('open');
+        expect(isCircuitOpen('google')).toBe(false);
+    });
+
+    it('closes circuits on reset', () => {
+        fail(4);
+        resetProviderHealth('google');
+
+        expect(circuitState('google')).toBe('closed');
+        expect(getProviderHealth('google')).toEqual([]);
+    });
+});
@@ -0,0 +1,218 @@
+import { LLMProvider } from '../index';
+
+// Provider health - shared by every client, so an outage seen by one call is skipped by the next ones
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type CircuitBreakerOptions = {
+    enabled?: boolean; // Skip providers with an open circuit (default true)
+    windowMs?: number; // Rolling window of the error rate (default 60000)
+    minRequests?: number; // Attempts in the window before the circuit can open (default 5)
+    errorRateThreshold?: number; // Error rate between 0 and 1 that opens the circuit (default 0.5)
+    cooldownMs?: number; // Time an open circuit waits before letting requests through again (default 30000)
+}
+
+export type HealthStats = {
+    requests: number; // Attempts in the window
+    failures: number;
+    errorRate: number;
+    avgLatencyMs: number;
+    lastError?: string;
+    lastFailureAt?: number;
+}
+
+export type ModelHealth = HealthStats & {
+    model: string;
+}
+
+export type ProviderHealth = HealthStats & {
+    provider: LLMProvider;
+    state: CircuitState;
+    openedAt?: number;
+    models: ModelHealth[];
+}
+
+type Sample = {
+    at: number;
+    ok: boolean;
+    latencyMs: number;
+}
+
+type HealthRecord = {
+    samples: Sample[];
+    lastError?: string;
+    lastFailureAt?: number;
+}
+
+type ProviderRecord = HealthRecord & {
+    state: 'closed' | 'open'; // half_open is derived from openedAt and the cooldown
+    openedAt?: number;
+    probeStartedAt?: number; // The single request let through the half-open circuit, until its result is recorded
+    models: { [model: string]: HealthRecord };
+}
+
+const MAX_SAMPLES = 1000;
+
+const DEFAULT_OPTIONS: Required<CircuitBreakerOptions> = {
+    enabled: true,
+    windowMs: 60000,
+    minRequests: 5,
+    errorRateThreshold: 0.5,
+    cooldownMs: 30000
+};
+
+let options: Required<CircuitBreakerOptions> = { ...DEFAULT_OPTIONS };
+const providers: { [provider: string]: ProviderRecord } = {};
+
+/**
+ * Configure the circuit breaker shared by all clients
+ * @param breakerOptions Options to change, the others keep their current value
+ */
+export function configureCircuitBreaker(breakerOptions: CircuitBreakerOptions): void {
+    options = { ...options, ...breakerOptions };
+}
+
+/**
+ * Health of every provider that has been called
+ * @param provider Only return this provider
+ * @returns Circuit state plus error rate and latency over the window, per provider and per model
+ */
+export function getProviderHealth(provider?: LLMProvider): ProviderHealth[] {
+    const names = provider ? [provider] : Object.keys(providers);
+    return names
+        .filter(name => providers[name])
+        .map(name => {
+            const record = providers[name];
+            return {
+                provider: name,
+                state: circuitState(name),
+                openedAt: record.openedAt,
+                ...healthStats(record),
+                models: Object.entries(record.models).map(([model, modelRecord]) => ({ model, ...healthStats(modelRecord) }))
+            };
+        });
+}
+
+// Forget the recorded health of one or all providers, closing their circuits
+export function resetProviderHealth(provider?: LLMProvider): void {
+    for (const name of provider ? [provider] : Object.keys(providers)) {
+        delete providers[name];
+    }
+}
+
+export function circuitState(provider: LLMProvider): CircuitState {
+    const record = providers[provider];
+    if (!record || record.state === 'closed') {
+        return 'closed';
+    }
+    return Date.now() - (record.openedAt || 0) >= options.cooldownMs ? 'half_open' : 'open';
+}
+
+// Whether requests to the provider should be skipped - a half-open circuit lets one probe through at a time.
+// A probe whose result is never recorded, e.g. because the request was abandoned, expires after another cooldown
+export function isCircuitOpen(provider: LLMProvider): boolean {
+    if (!options.enabled) {
+        return false;
+    }
+    const state = circuitState(provider);
+    if (state !== 'half_open') {
+        return state === 'open';
+    }
+    return hasActiveProbe(providers[provider]);
+}
+
+// Make an attempt about to be sent through a half-open circuit its probe - called per attempt, so providers
+// that are checked but never tried do not hold the probe. False when another request's probe is in flight
+export function claimProbe(provider: LLMProvider): boolean {
+    if (!options.enabled || circuitState(provider) !== 'half_open') {
+        return true;
+    }
+    const record = providers[provider];
+    if (hasActiveProbe(record)) {
+        return false;
+    }
+    record.probeStartedAt = Date.now();
+    return true;
+}
+
+function hasActiveProbe(record: ProviderRecord): boolean {
+    return record.probeStartedAt !== undefined && Date.now() - record.probeStartedAt < options.cooldownMs;
+}
+
+export function recordSuccess(provider: LLMProvider, model: string, latencyMs: number): void {
+    const record = providerRecord(provider);
+    const sample = { at: Date.now(), ok: true, latencyMs };
+    addSample(record, sample);
+    addSample(modelRecord(record, model), sample);
+
+    // A successful request through a half-open circuit closes it
+    if (record.state === 'open') {
+        record.state = 'closed';
+        record.openedAt = undefined;
+        record.probeStartedAt = undefined;
+        record.samples = [sample];
+    }
+}
+
+export function recordFailure(provider: LLMProvider, model: string, latencyMs: number, error: Error): void {
+    const record = providerRecord(provider);
+    const sample = { at: Date.now(), ok: false, latencyMs };
+    for (const target of [record, modelRecord(record, model)]) {
+        addSample(target, sample);
+        target.lastError = error.message;
+        target.lastFailureAt = sample.at;
+    }
+
+    // A failed request through a half-open circuit opens it again
+    if (record.state === 'open') {
+        record.openedAt = sample.at;
+        record.probeStartedAt = undefined;
+        return;
+    }
+
+    const stats = healthStats(record);
+    if (stats.requests >= options.minRequests && stats.errorRate >= options.errorRateThreshold) {
+        record.state = 'open';
+        record.openedAt = sample.at;
+    }
+}
+
+function providerRecord(provider: LLMProvider): ProviderRecord {
+    if (!providers[provider]) {
+        providers[provider] = { samples: [], state: 'closed', models: {} };
+    }
+    return providers[provider];
+}
+
+function modelRecord(record: ProviderRecord, model: string): HealthRecord {
+    if (!record.models[model]) {
+        record.models[model] = { samples: [] };
+    }
+    return record.models[model];
+}
+
+function addSample(record: HealthRecord, sample: Sample): void {
+    record.samples.push(sample);
+    pruneSamples(record);
+}
+
+function pruneSamples(record: HealthRecord): void {
+    const windowStart = Date.now() - options.windowMs;
+    const firstInWindow = record.samples.findIndex(sample => sample.at >= windowStart);
+    record.samples = firstInWindow === -1 ? [] : record.samples.slice(firstInWindow).slice(-MAX_SAMPLES);
+}
+
+function healthStats(record: HealthRecord): HealthStats {
+    pruneSamples(record);
+    const requests = record.samples.length;
+    const failures = record.samples.filter(sample => !sample.ok).length;
+    const totalLatency = record.samples.reduce((total, sample) => total + sample.latencyMs, 0);
+    return {
+        requests,
+        failures,
+        errorRate: requests > 0 ? failures / requests : 0,
+        avgLatencyMs: requests > 0 ? Math.round(totalLatency / requests) : 0,
+        lastError: record.lastError,
+        lastFailureAt: record.lastFailureAt
+    };
+}
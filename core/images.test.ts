@@ -0,0 +1,184 @@
+import sharp from 'sharp';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LLMMessage } from '../index';
+import { ProviderAdapter } from '../types';
+import { configureImageSources, detectImageType, ImageFetcher, loadImageSource, loadMessageImages, loadReferenceImages, parseImageInput, withImageInput } from './images';
+
+async function png(size: number): Promise<Buffer> {
+    return sharp({ create: { width: size, height: size, channels: 3, background: '#3366cc' } }).png().toBuffer();
+}
+
+function imageMessage(image: any): LLMMessage {
+    return { role: 'user', content: [{ type: 'text', text: 'Describe this' }, { type: 'image', image }] };
+}
+
+describe('detectImageType', () => {
+    it('detects formats from their magic bytes', async () => {
+        expect(detectImageType(await png(2))).toBe('image/png');
+        expect(detectImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+        expect(detectImageType(Buffer.from('GIF89a'))).toBe('image/gif');
+        expect(detectImageType(Buffer.from('RIFF\0\0\0\0WEBP'))).toBe('image/webp');
+        expect(detectImageType(Buffer.from('\0\0\0\x18ftypheic'))).toBe('image/heic');
+        expect(detectImageType(Buffer.from('plain text'))).toBeUndefined();
+    });
+});
+
+describe('parseImageInput', () => {
+    it('labels an image with its detected format over the declared one', async () => {
+        const data = (await png(2)).toString('base64');
+
+        expect(parseImageInput(`data:image/jpeg;base64,${data}`, 'mock')).toEqual({ data, mimeType: 'image/png' });
+        expect(parseImageInput(data, 'mock').mimeType).toBe('image/png');
+    });
+
+    it('rejects data that is not base64 or not an image', () => {
+        expect(() => parseImageInput('not base64!', 'mock')).toThrow(expect.objectContaining({ code: 'INVALID_IMAGE' }));
+        expect(() => parseImageInput(Buffer.from('plain text').toString('base64'), 'mock')).toThrow(expect.objectContaining({ code: 'INVALID_IMAGE' }));
+    });
+});
+
+describe('loadMessageImages', () => {
+    it('loads Buffer and file sources as labeled base64', async () => {
+        const bytes = await png(2);
+        const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'images-')), 'panel.png');
+        await fs.writeFile(file, bytes);
+
+        const [fromBuffer, fromFile] = await loadMessageImages([imageMessage(bytes), imageMessage({ path: file })], 'mock');
+
+        for (const message of [fromBuffer, fromFile]) {
+            expect((message.content as any[])[1]).toEqual({ type: 'image', image: bytes.toString('base64'), mimeType: 'image/png' });
+        }
+    });
+
+    it('leaves remote URLs and messages without images as they are', async () => {
+        const messages: LLMMessage[] = [{ role: 'user', content: 'Hello' }, imageMessage({ url: 'https://example.com/panel.png' })];
+
+        expect(await loadMessageImages(messages, 'mock')).toEqual(messages);
+    });
+
+    it('fails for unreadable files', async () => {
+        await expect(loadMessageImages([imageMessage({ path: '/missing/panel.png' })], 'mock')).rejects.toMatchObject({ code: 'INVALID_IMAGE' });
+    });
+});
+
+describe('loadReferenceImages', () => {
+    it('returns data URLs labeled with the detected format', async () => {
+        const bytes = await png(2);
+
+        expect(await loadReferenceImages([bytes], 'mock')).toEqual([`data:image/png;base64,${bytes.toString('base64')}`]);
+        expect(await loadReferenceImages(undefined, 'mock')).toBeUndefined();
+    });
+});
+
+describe('withImageInput', () => {
+    let received: LLMMessage[] = [];
+    const adapter: ProviderAdapter = {
+        generateText: async (_model, _system, messages) => {
+            received = messages;
+            return { response: 'ok', usage: { itoken: 0, otoken: 0, ttoken: 0 } };
+        }
+    };
+
+    it('converts and downscales images to the provider limits', async () => {
+        const [message] = await loadMessageImages([imageMessage(await png(64))], 'mock');
+        const wrapped = withImageInput('test', { formats: ['image/jpeg'], maxDimension: 16 }, adapter);
+
+        await wrapped.generateText!('model', '', [message]);
+
+        const part = (received[0].content as any[])[1];
+        expect(part.mimeType).toBe('image/jpeg');
+        const metadata = await sharp(Buffer.from(part.image, 'base64')).metadata();
+        expect([metadata.format, metadata.width, metadata.height]).toEqual(['jpeg', 16, 16]);
+    });
+
+    it('passes remote URLs to providers that fetch them', async () => {
+        const message = imageMessage({ url: 'https://example.com/panel.png' });
+        const wrapped = withImageInput('test', { formats: ['image/png'], remoteUrls: true }, adapter);
+
+        await wrapped.generateText!('model', '', [message]);
+
+        expect(received).toEqual([message]);
+    });
+});
+
+describe('image sources', () => {
+    let fetched: string[] = [];
+    const fetcher = (bytes: Buffer): ImageFetcher => async url => {
+        fetched.push(url);
+        return bytes;
+    };
+
+    beforeEach(() => {
+        fetched = [];
+    });
+
+    afterEach(() => {
+        configureImageSources({ fetcher: undefined, maxSourceBytes: 20 * 1024 * 1024 });
+    });
+
+    it('fetches remote URLs with the configured fetcher once per source', async () => {
+        const bytes = await png(2);
+        configureImageSources({ fetcher: fetcher(bytes) });
+        const source = { url: 'https://example.com/panel.png' };
+
+        const first = await loadImageSource(source, 'mock');
+        const second = await loadImageSource(source, 'mock');
+
+        expect(first).toEqual({ data: bytes.toString('base64'), mimeType: 'image/png' });
+        expect(second).toEqual(first);
+        expect(fetched).toEqual(['https://example.com/panel.png']);
+    });
+
+    it('loads remote URLs for providers that do not fetch them', async () => {
+        const bytes = await png(2);
+        configureImageSources({ fetcher: fetcher(bytes) });
+        let received: LLMMessage[] = [];
+        const wrapped = withImageInput('test', { formats: ['image/png'] }, {
+            generateText: async (_model, _system, messages) => {
+                received = messages;
+                return { response: 'ok' };
+            }
+        });
+
+        await wrapped.generateText!('model', '', [imageMessage({ url: 'https://example.com/panel.png' })]);
+
+        expect((received[0].content as any[])[1]).toEqual({ type: 'image', image: bytes.toString('base64'), mimeType: 'image/png' });
+    });
+
+    it('reads data URLs given as a url source without fetching', async () => {
+        const data = (await png(2)).toString('base64');
+        configureImageSources({ fetcher: fetcher(Buffer.alloc(0)) });
+
+        expect(await loadImageSource({ url: `data:image/png;base64,${data}` }, 'mock')).toEqual({ data, mimeType: 'image/png' });
+        expect(fetched).toEqual([]);
+    });
+
+    it('rejects fetched and file sources larger than maxSourceBytes', async () => {
+        const bytes = await png(64);
+        const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'images-')), 'panel.png');
+        await fs.writeFile(file, bytes);
+        configureImageSources({ fetcher: fetcher(bytes), maxSourceBytes: bytes.length - 1 });
+
+        await expect(loadImageSource({ url: 'https://example.com/large.png' }, 'mock')).rejects.toMatchObject({ code: 'INVALID_IMAGE' });
+        await expect(loadImageSource({ path: file }, 'mock')).rejects.toMatchObject({ code: 'INVALID_IMAGE' });
+    });
+
+    it('reports a failed fetch and tries it again on the next load', async () => {
+        const bytes = await png(2);
+        let calls = 0;
+        configureImageSources({
+            fetcher: async () => {
+                if (calls++ === 0) {
+                    throw Object.assign(new Error('Not found'), { response: { status: 404 } });
+                }
+                return bytes;
+            }
+        });
+        const source = { url: 'https://example.com/panel.png' };
+
+        await expect(loadImageSource(source, 'mock')).rejects.toMatchObject({ code: 'IMAGE_FETCH_FAILED', statusCode: 404 });
+        expect((await loadImageSource(source, 'mock')).mimeType).toBe('image/png');
+    });
+});
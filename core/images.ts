@@ -0,0 +1,325 @@
+import type Sharp from 'sharp';
+import { promises as fs } from 'fs';
+import axios from 'axios';
+import { LLMError, LLMImageSource, LLMMessage, LLMProvider } from '../index';
+import { ProviderAdapter } from '../types';
+import { isValidBase64 } from '../utils';
+
+// Image input - image parts are loaded, validated, labeled with their real format and fitted to the provider's limits
+
+export type ImageMimeType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp' | 'image/heic' | 'image/heif' | 'image/avif' | 'image/tiff';
+
+// What a provider accepts as image input
+export type ImageInputLimits = {
+    formats: ImageMimeType[]; // Other formats are converted to PNG or JPEG
+    maxBytes?: number; // Decoded size of one image, larger images are downscaled
+    maxDimension?: number; // Longest side in pixels, larger images are downscaled
+    remoteUrls?: boolean; // http(s) image URLs are passed on for the provider to fetch
+}
+
+// Loads the bytes of a { url } image source
+export type ImageFetcher = (url: string, options: { maxBytes: number; signal?: AbortSignal }) => Promise<Buffer>;
+
+export type ImageSourceOptions = {
+    fetcher?: ImageFetcher; // Default HTTP GET with axios
+    maxSourceBytes?: number; // Largest image fetched or read from a file, before it is fitted (default 20 MB)
+    fetchTimeoutMs?: number; // Timeout of the default fetcher (default 30s)
+}
+
+type ImageData = {
+    data: string; // base64 without data URL prefix
+    mimeType: ImageMimeType;
+}
+
+const KNOWN_FORMATS: ImageMimeType[] = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/heic', 'image/heif', 'image/avif', 'image/tiff'];
+
+// Formats sharp can write, others are re-encoded as PNG or JPEG when they have to be resized
+const WRITABLE_FORMATS: ImageMimeType[] = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+// Re-encoding attempts to get below maxBytes, each one shrinking the image further
+const MAX_FIT_ATTEMPTS = 5;
+
+const DEFAULT_SOURCE_OPTIONS: Required<Omit<ImageSourceOptions, 'fetcher'>> = {
+    maxSourceBytes: 20 * 1024 * 1024,
+    fetchTimeoutMs: 30000
+};
+
+let sourceOptions: ImageSourceOptions = { ...DEFAULT_SOURCE_OPTIONS };
+
+// Fetched and read sources, so fallbacks and retries do not load them again
+const loadedSources = new WeakMap<object, Promise<ImageData>>();
+
+/**
+ * Configure how { url } and { path } image sources are loaded
+ * @param options Options to change, the others keep their current value
+ */
+export function configureImageSources(options: ImageSourceOptions): void {
+    sourceOptions = { ...sourceOptions, ...options };
+}
+
+// sharp is an optional dependency, loaded on first use
+let sharpModule: typeof Sharp | null | undefined;
+
+function loadSharp(): typeof Sharp | null {
+    if (sharpModule === undefined) {
+        try {
+            sharpModule = require('sharp');
+        } catch {
+            sharpModule = null;
+        }
+    }
+    return sharpModule!;
+}
+
+// Format of image bytes from their magic bytes
+export function detectImageType(bytes: Buffer): ImageMimeType | undefined {
+    if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return 'image/png';
+    }
+    if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    const header = bytes.subarray(0, 12).toString('latin1');
+    if (header.startsWith('GIF87a') || header.startsWith('GIF89a')) {
+        return 'image/gif';
+    }
+    if (header.startsWith('RIFF') && header.slice(8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    if (header.startsWith('II*\0') || header.startsWith('MM\0*')) {
+        return 'image/tiff';
+    }
+    // ISO base media files, told apart by their brand
+    if (header.slice(4, 8) === 'ftyp') {
+        const brand = header.slice(8, 12);
+        if (brand === 'avif' || brand === 'avis') {
+            return 'image/avif';
+        }
+        if (['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'].includes(brand)) {
+            return 'image/heic';
+        }
+        if (brand === 'mif1' || brand === 'msf1') {
+            return 'image/heif';
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Validate an image part and detect its format
+ * @param image base64, or a data URL - the detected format wins over the declared one
+ * @param provider Provider the error is reported for
+ * @returns base64 without prefix and the format
+ */
+export function parseImageInput(image: string | undefined, provider: LLMProvider): ImageData {
+    const dataUrl = (image || '').match(/^data:([^;,]*)[^,]*;base64,/);
+    const data = (image || '').slice(dataUrl ? dataUrl[0].length : 0).replace(/\s/g, '');
+    if (!isValidBase64(data)) {
+        throw new LLMError('Invalid image: expected base64 data or a base64 data URL', provider, 'INVALID_IMAGE');
+    }
+    const declared = KNOWN_FORMATS.find(format => format === dataUrl?.[1].toLowerCase());
+    const mimeType = detectImageType(Buffer.from(data.slice(0, 64), 'base64')) || declared;
+    if (!mimeType) {
+        throw new LLMError('Invalid image: not a PNG, JPEG, GIF, WebP, HEIC, HEIF, AVIF or TIFF image', provider, 'INVALID_IMAGE');
+    }
+    return { data, mimeType };
+}
+
+const defaultFetcher: ImageFetcher = async (url, { maxBytes, signal }) => {
+    const response = await axios.get<ArrayBuffer>(url, {
+        responseType: 'arraybuffer',
+        maxContentLength: maxBytes,
+        timeout: sourceOptions.fetchTimeoutMs,
+        signal
+    });
+    return Buffer.from(response.data);
+};
+
+async function fetchImage(url: string, provider: LLMProvider, signal?: AbortSignal): Promise<Buffer> {
+    const maxBytes = sourceOptions.maxSourceBytes ?? DEFAULT_SOURCE_OPTIONS.maxSourceBytes;
+    let bytes: Buffer;
+    try {
+        bytes = await (sourceOptions.fetcher || defaultFetcher)(url, { maxBytes, signal });
+    } catch (error: any) {
+        if (signal?.aborted) {
+            throw error;
+        }
+        throw new LLMError(`Failed to fetch image ${url}: ${error.message}`, provider, 'IMAGE_FETCH_FAILED', error.response?.status);
+    }
+    if (bytes.length > maxBytes) {
+        throw new LLMError(`Image ${url} is larger than ${maxBytes} bytes`, provider, 'INVALID_IMAGE');
+    }
+    return bytes;
+}
+
+async function readImage(path: string, provider: LLMProvider): Promise<Buffer> {
+    const maxBytes = sourceOptions.maxSourceBytes ?? DEFAULT_SOURCE_OPTIONS.maxSourceBytes;
+    try {
+        const stats = await fs.stat(path);
+        if (stats.size > maxBytes) {
+            throw new Error(`larger than ${maxBytes} bytes`);
+        }
+        return await fs.readFile(path);
+    } catch (error: any) {
+        throw new LLMError(`Failed to read image ${path}: ${error.message}`, provider, 'INVALID_IMAGE');
+    }
+}
+
+const REMOTE_URL = /^https?:\/\//i;
+
+function isRemoteUrl(source: LLMImageSource | undefined): boolean {
+    return typeof source === 'object' && !Buffer.isBuffer(source) && 'url' in source && REMOTE_URL.test(source.url);
+}
+
+/**
+ * Load an image source and detect its format
+ * @param source Image part or reference image
+ * @param provider Provider the error is reported for
+ * @param signal Aborts fetching a { url } source
+ * @returns base64 without prefix and the format
+ */
+export async function loadImageSource(source: LLMImageSource | undefined, provider: LLMProvider, signal?: AbortSignal): Promise<ImageData> {
+    if (source === undefined || typeof source === 'string') {
+        return parseImageInput(source, provider);
+    }
+    if (Buffer.isBuffer(source)) {
+        return parseImageInput(source.toString('base64'), provider);
+    }
+    if ('url' in source && !REMOTE_URL.test(source.url)) {
+        return parseImageInput(source.url, provider); // data URL
+    }
+
+    let loaded = loadedSources.get(source);
+    if (!loaded) {
+        const bytes = 'url' in source ? fetchImage(source.url, provider, signal) : readImage(source.path, provider);
+        loaded = bytes.then(data => parseImageInput(data.toString('base64'), provider));
+        // Failed loads are tried again by the next call
+        loaded.catch(() => loadedSources.delete(source));
+        loadedSources.set(source, loaded);
+    }
+    return loaded;
+}
+
+/**
+ * Load reference images for image generation
+ * @returns base64 data URLs labeled with their detected format
+ */
+export async function loadReferenceImages(
+    referenceImage: LLMImageSource | LLMImageSource[] | undefined,
+    provider: LLMProvider,
+    signal?: AbortSignal
+): Promise<string | string[] | undefined> {
+    if (referenceImage === undefined) {
+        return undefined;
+    }
+    const toDataUrl = async (source: LLMImageSource) => {
+        const image = await loadImageSource(source, provider, signal);
+        return `data:${image.mimeType};base64,${image.data}`;
+    };
+    return Array.isArray(referenceImage) ? Promise.all(referenceImage.map(toDataUrl)) : toDataUrl(referenceImage);
+}
+
+/**
+ * Load and validate every image part once, before any provider is tried
+ * Remote image URLs are left to the providers that fetch them, or are loaded per provider
+ * @param provider Provider the error is reported for
+ * @returns Messages with the image parts as base64 labeled with their detected format
+ */
+export async function loadMessageImages(messages: LLMMessage[], provider: LLMProvider): Promise<LLMMessage[]> {
+    return Promise.all(messages.map(async message => {
+        if (typeof message.content === 'string' || !message.content.some(part => part.type === 'image')) {
+            return message;
+        }
+        const content = await Promise.all(message.content.map(async part => {
+            if (part.type !== 'image' || isRemoteUrl(part.image)) {
+                return part;
+            }
+            const image = await loadImageSource(part.image, provider);
+            return { ...part, image: image.data, mimeType: image.mimeType };
+        }));
+        return { ...message, content };
+    }));
+}
+
+// Convert and downscale an image until the provider accepts it
+async function fitImage(image: ImageData, limits: ImageInputLimits, provider: LLMProvider): Promise<ImageData> {
+    const bytes = Buffer.from(image.data, 'base64');
+    const convert = !limits.formats.includes(image.mimeType);
+    const oversized = limits.maxBytes !== undefined && bytes.length > limits.maxBytes;
+
+    const sharp = loadSharp();
+    if (!sharp) {
+        if (convert) {
+            throw new LLMError(`${provider} does not accept ${image.mimeType} images. Install sharp to convert them.`, provider, 'UNSUPPORTED_IMAGE');
+        }
+        if (oversized) {
+            throw new LLMError(`Image of ${bytes.length} bytes is larger than the ${limits.maxBytes} bytes ${provider} accepts. Install sharp to downscale it.`, provider, 'UNSUPPORTED_IMAGE');
+        }
+        return image;
+    }
+
+    const metadata = await sharp(bytes).metadata();
+    const longestSide = Math.max(metadata.width || 0, metadata.height || 0);
+    const tooLarge = limits.maxDimension !== undefined && longestSide > limits.maxDimension;
+    if (!convert && !oversized && !tooLarge) {
+        return image;
+    }
+
+    // Keep the format when possible, otherwise PNG for transparent images and JPEG for the rest
+    const fallbackFormat: ImageMimeType = metadata.hasAlpha && limits.formats.includes('image/png') ? 'image/png'
+        : limits.formats.includes('image/jpeg') ? 'image/jpeg'
+        : limits.formats.find(format => WRITABLE_FORMATS.includes(format)) || 'image/png';
+    let format = !convert && WRITABLE_FORMATS.includes(image.mimeType) ? image.mimeType : fallbackFormat;
+    let size = limits.maxDimension !== undefined ? Math.min(longestSide, limits.maxDimension) : longestSide;
+
+    for (let attempt = 0; attempt < MAX_FIT_ATTEMPTS; attempt++) {
+        // rotate() applies the EXIF orientation, which re-encoding drops
+        const output = await sharp(bytes)
+            .rotate()
+            .resize({ width: size, height: size, fit: 'inside', withoutEnlargement: true })
+            .toFormat(format.slice('image/'.length) as keyof Sharp.FormatEnum)
+            .toBuffer();
+        if (limits.maxBytes === undefined || output.length <= limits.maxBytes) {
+            return { data: output.toString('base64'), mimeType: format };
+        }
+        // Pixels grow with the square of the side, shrink a bit more so the next attempt likely fits
+        size = Math.floor(size * Math.sqrt(limits.maxBytes / output.length) * 0.9);
+        format = format === 'image/png' && !metadata.hasAlpha && limits.formats.includes('image/jpeg') ? 'image/jpeg' : format;
+    }
+
+    throw new LLMError(`Could not downscale the image below the ${limits.maxBytes} bytes ${provider} accepts`, provider, 'UNSUPPORTED_IMAGE');
+}
+
+// Messages with every image part fitted to the provider's limits, loading the parts loadMessageImages left out
+async function fitMessageImages(messages: LLMMessage[], provider: LLMProvider, limits: ImageInputLimits | undefined, signal?: AbortSignal): Promise<LLMMessage[]> {
+    return Promise.all(messages.map(async message => {
+        if (typeof message.content === 'string' || !message.content.some(part => part.type === 'image')) {
+            return message;
+        }
+        const content = await Promise.all(message.content.map(async part => {
+            if (part.type !== 'image' || (limits?.remoteUrls && isRemoteUrl(part.image))) {
+                return part;
+            }
+            const image = typeof part.image === 'string' && part.mimeType
+                ? { data: part.image, mimeType: part.mimeType as ImageMimeType }
+                : await loadImageSource(part.image, provider, signal);
+            const fitted = limits ? await fitImage(image, limits, provider) : image;
+            return { ...part, image: fitted.data, mimeType: fitted.mimeType };
+        }));
+        return { ...message, content };
+    }));
+}
+
+// The adapter of a provider with image input normalized before each call
+export function withImageInput(provider: LLMProvider, limits: ImageInputLimits | undefined, adapter: ProviderAdapter): ProviderAdapter {
+    return {
+        generateText: adapter.generateText && (async (model, system, messages, maxTokens, temperature, options) =>
+            adapter.generateText!(model, system, await fitMessageImages(messages, provider, limits, options?.signal), maxTokens, temperature, options)),
+        generateStream: adapter.generateStream && (async function* (model, system, messages, maxTokens, temperature, options) {
+            yield* adapter.generateStream!(model, system, await fitMessageImages(messages, provider, limits, options?.signal), maxTokens, temperature, options);
+        }),
+        generateImage: adapter.generateImage && (options => adapter.generateImage!(options)),
+        countTokens: adapter.countTokens && (async (model, system, messages, signal) =>
+            adapter.countTokens!(model, system, await fitMessageImages(messages, provider, limits, signal), signal))
+    };
+}
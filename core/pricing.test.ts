@@ -0,0 +1,66 @@
+import { estimateCost, getModelPricing, removeModelPricing, setModelPricing } from './pricing';
+
+describe('getModelPricing', () => {
+    it('prices dated and versioned snapshots as their model', () => {
+        expect(getModelPricing('openai', 'gpt-4o-2024-08-06')).toBe(getModelPricing('openai', 'gpt-4o'));
+        expect(getModelPricing('openai', 'gpt-4o-mini-2024-07-18')).toBe(getModelPricing('openai', 'gpt-4o-mini'));
+        expect(getModelPricing('anthropic', 'claude-sonnet-4-20250514')).toBe(getModelPricing('anthropic', 'claude-sonnet-4'));
+        expect(getModelPricing('anthropic', 'claude-3-5-haiku-latest')).toBe(getModelPricing('anthropic', 'claude-3-5-haiku'));
+        expect(getModelPricing('google', 'imagen-4.0-generate-001')).toBe(getModelPricing('google', 'imagen-4.0-generate'));
+    });
+
+    it('does not price other variants as the model they start with', () => {
+        expect(getModelPricing('openai', 'gpt-4.1-nano')).toBeUndefined();
+        expect(getModelPricing('openai', 'gpt-image-1-mini')).toBeUndefined();
+        expect(getModelPricing('unknown', 'gpt-4o')).toBeUndefined();
+    });
+});
+
+describe('estimateCost', () => {
+    afterEach(() => {
+        removeModelPricing('custom', 'model');
+    });
+
+    it('prices input, output, thinking and cached tokens per 1M', () => {
+        setModelPricing('custom', 'model', { input: 2, output: 10, thinking: 5, cachedInput: 1 });
+
+        const cost = estimateCost('custom', 'model', { itoken: 1_000_000, otoken: 100_000, ttoken: 200_000, ctoken: 400_000 });
+
+        // 600k input at 2, 400k cached at 1, 100k output at 10 and 200k thinking at 5
+        expect(cost).toBeCloseTo(1.2 + 0.4 + 1 + 1);
+    });
+
+    it('prices thinking as output and cached input as input by default', () => {
+        setModelPricing('custom', 'model', { input: 1, output: 4 });
+
+        expect(estimateCost('custom', 'model', { itoken: 500_000, otoken: 250_000, ttoken: 250_000, ctoken: 100_000 })).toBeCloseTo(0.5 + 1 + 1);
+    });
+
+    it('adds the price per generated image', () => {
+        setModelPricing('custom', 'model', { input: 5, image: 0.04 });
+
+        expect(estimateCost('custom', 'model', { itoken: 1000, otoken: 0, ttoken: 0 }, 2)).toBeCloseTo(0.005 + 0.08);
+    });
+
+    it('returns undefined for unpriced models and warns once per model', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(estimateCost('custom', 'unpriced', { itoken: 1, otoken: 1, ttoken: 0 })).toBeUndefined();
+        estimateCost('custom', 'unpriced', { itoken: 1, otoken: 1, ttoken: 0 });
+
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toContain('No prices for custom model unpriced');
+        warn.mockRestore();
+    });
+
+    it('leaves the warning out for requests that only log errors', () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        estimateCost('custom', 'silenced', { itoken: 1, otoken: 1, ttoken: 0 }, 0, 'error');
+        expect(warn).not.toHaveBeenCalled();
+
+        estimateCost('custom', 'silenced', { itoken: 1, otoken: 1, ttoken: 0 }, 0, 'warn');
+        expect(warn).toHaveBeenCalledTimes(1);
+        warn.mockRestore();
+    });
+});
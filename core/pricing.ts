@@ -0,0 +1,129 @@
+import { LLMProvider } from '../index';
+import { AdapterUsage } from '../types';
+import { log } from '../utils';
+
+// Pricing table - USD prices used for estimated_cost on tracking records and responses
+
+export type ModelPricing = {
+    input?: number; // Per 1M input tokens
+    output?: number; // Per 1M output tokens
+    thinking?: number; // Per 1M thinking tokens (default: output price)
+    cachedInput?: number; // Per 1M cached input tokens (default: input price)
+    image?: number; // Per generated image
+}
+
+const pricing: { [provider: string]: { [model: string]: ModelPricing } } = {};
+
+// Snapshot and alias suffixes of a priced model: -2024-08-06, -20250514, -latest, -001 and -0709
+const VERSION_SUFFIX = /^-(\d{4}-\d{2}-\d{2}|\d{8}|latest|\d{3,4})$/;
+
+// Models already warned about having no prices, keyed by provider and model
+const unpricedModels = new Set<string>();
+
+/**
+ * Set the prices of a model, replacing its current prices
+ * @param provider Provider name
+ * @param model Model name - also used for its dated or versioned snapshots without their own prices, e.g. 'gpt-4o' for 'gpt-4o-2024-08-06'
+ * @param modelPricing USD prices per 1M tokens and per image
+ */
+export function setModelPricing(provider: LLMProvider, model: string, modelPricing: ModelPricing): void {
+    if (!pricing[provider]) {
+        pricing[provider] = {};
+    }
+    pricing[provider][model] = modelPricing;
+}
+
+export function removeModelPricing(provider: LLMProvider, model: string): void {
+    delete pricing[provider]?.[model];
+}
+
+// Prices of a model, falling back to the priced model it is a snapshot of - other variants such as
+// 'gpt-4.1-nano' are not priced as 'gpt-4.1' and need their own entry
+export function getModelPricing(provider: LLMProvider, model: string): ModelPricing | undefined {
+    const models = pricing[provider];
+    if (!models) {
+        return undefined;
+    }
+    if (models[model]) {
+        return models[model];
+    }
+    const base = Object.keys(models)
+        .filter(name => model.startsWith(name) && VERSION_SUFFIX.test(model.slice(name.length)))
+        .sort((a, b) => b.length - a.length)[0];
+    return base ? models[base] : undefined;
+}
+
+/**
+ * Estimate the cost of a call in USD
+ * @param provider Provider name
+ * @param model Model name
+ * @param usage Token usage of the call
+ * @param images Number of generated images
+ * @param errorLevel Log level of the request - the warning for a model without prices follows it
+ * @returns Cost in USD, undefined when the model has no prices
+ */
+export function estimateCost(
+    provider: LLMProvider,
+    model: string,
+    usage: AdapterUsage,
+    images: number = 0,
+    errorLevel: 'quiet' | 'info' | 'warn' | 'error' = 'quiet'
+): number | undefined {
+    const modelPricing = getModelPricing(provider, model);
+    if (!modelPricing) {
+        // The mock provider is never priced - a model only counts as warned about once the warning was shown
+        if (provider !== 'mock' && errorLevel !== 'error' && !unpricedModels.has(`${provider}/${model}`)) {
+            unpricedModels.add(`${provider}/${model}`);
+            log('warn', errorLevel, `No prices for ${provider} model ${model}, its cost is not estimated. Add them with setModelPricing.`);
+        }
+        return undefined;
+    }
+
+    const input = modelPricing.input || 0;
+    const output = modelPricing.output || 0;
+    const cachedTokens = usage.ctoken || 0;
+
+    return (
+        (usage.itoken - cachedTokens) * input +
+        cachedTokens * (modelPricing.cachedInput ?? input) +
+        usage.otoken * output +
+        usage.ttoken * (modelPricing.thinking ?? output)
+    ) / 1_000_000 + images * (modelPricing.image || 0);
+}
+
+// Built-in prices (standard tier, prompts up to 200k tokens)
+setModelPricing('google', 'gemini-2.5-pro', { input: 1.25, output: 10, cachedInput: 0.31 });
+setModelPricing('google', 'gemini-2.5-flash', { input: 0.3, output: 2.5, cachedInput: 0.075 });
+setModelPricing('google', 'gemini-2.5-flash-lite', { input: 0.1, output: 0.4, cachedInput: 0.025 });
+setModelPricing('google', 'gemini-2.5-flash-image', { input: 0.3, image: 0.039 });
+setModelPricing('google', 'gemini-2.5-flash-image-preview', { input: 0.3, image: 0.039 });
+setModelPricing('google', 'imagen-4.0-generate', { image: 0.04 });
+
+setModelPricing('anthropic', 'claude-opus-4', { input: 15, output: 75, cachedInput: 1.5 });
+setModelPricing('anthropic', 'claude-opus-4-0', { input: 15, output: 75, cachedInput: 1.5 });
+setModelPricing('anthropic', 'claude-opus-4-1', { input: 15, output: 75, cachedInput: 1.5 });
+setModelPricing('anthropic', 'claude-opus-4-5', { input: 5, output: 25, cachedInput: 0.5 });
+setModelPricing('anthropic', 'claude-sonnet-4', { input: 3, output: 15, cachedInput: 0.3 });
+setModelPricing('anthropic', 'claude-sonnet-4-0', { input: 3, output: 15, cachedInput: 0.3 });
+setModelPricing('anthropic', 'claude-sonnet-4-5', { input: 3, output: 15, cachedInput: 0.3 });
+setModelPricing('anthropic', 'claude-haiku-4-5', { input: 1, output: 5, cachedInput: 0.1 });
+setModelPricing('anthropic', 'claude-3-5-haiku', { input: 0.8, output: 4, cachedInput: 0.08 });
+
+setModelPricing('openai', 'gpt-5', { input: 1.25, output: 10, cachedInput: 0.125 });
+setModelPricing('openai', 'gpt-5-mini', { input: 0.25, output: 2, cachedInput: 0.025 });
+setModelPricing('openai', 'gpt-5-nano', { input: 0.05, output: 0.4, cachedInput: 0.005 });
+setModelPricing('openai', 'gpt-4.1', { input: 2, output: 8, cachedInput: 0.5 });
+setModelPricing('openai', 'gpt-4.1-mini', { input: 0.4, output: 1.6, cachedInput: 0.1 });
+setModelPricing('openai', 'gpt-4o', { input: 2.5, output: 10, cachedInput: 1.25 });
+setModelPricing('openai', 'gpt-4o-mini', { input: 0.15, output: 0.6, cachedInput: 0.075 });
+setModelPricing('openai', 'o4-mini', { input: 1.1, output: 4.4, cachedInput: 0.275 });
+setModelPricing('openai', 'gpt-image-1', { input: 5, image: 0.042 }); // Medium quality, 1024x1024
+setModelPricing('openai', 'dall-e-3', { image: 0.04 });
+
+setModelPricing('xai', 'grok-4', { input: 3, output: 15, cachedInput: 0.75 });
+setModelPricing('xai', 'grok-4-fast', { input: 0.2, output: 0.5, cachedInput: 0.05 });
+setModelPricing('xai', 'grok-4-fast-reasoning', { input: 0.2, output: 0.5, cachedInput: 0.05 });
+setModelPricing('xai', 'grok-4-fast-non-reasoning', { input: 0.2, output: 0.5, cachedInput: 0.05 });
+setModelPricing('xai', 'grok-2-image', { image: 0.07 });
+
+setModelPricing('venice', 'venice-uncensored', { input: 0.2, output: 0.9 });
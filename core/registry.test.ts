@@ -0,0 +1,81 @@
+import { createLLMClient, generateText, getProvider, listProviders, registerProvider, unregisterProvider, unregisterTrackingSink } from '../index';
+import { AdapterTextOptions, ProviderAdapter } from '../types';
+
+type Call = { model: string; maxTokens?: number; temperature?: number; options?: AdapterTextOptions };
+
+// Adapter of an in-house model that answers with its model name
+function inHouseAdapter(calls: Call[], reply: string = 'In-house reply'): ProviderAdapter {
+    return {
+        generateText: async (model, _system, _messages, maxTokens, temperature, options) => {
+            calls.push({ model, maxTokens, temperature, options });
+            return { response: reply, usage: { itoken: 1, otoken: 1, ttoken: 0 } };
+        }
+    };
+}
+
+const request = {
+    system: 'You are concise.',
+    messages: [{ role: 'user' as const, content: 'Hello' }],
+    errorLevel: 'error' as const
+};
+
+beforeAll(() => {
+    unregisterTrackingSink('console');
+});
+
+afterEach(() => {
+    unregisterProvider('inhouse');
+});
+
+describe('provider registry', () => {
+    it('dispatches requests to a registered adapter with its default model', async () => {
+        const calls: Call[] = [];
+        registerProvider('inhouse', inHouseAdapter(calls), { models: { text: 'inhouse-large' } });
+
+        const response = await generateText({ ...request, model: {}, fallbackOrder: ['inhouse'] });
+
+        expect(response).toMatchObject({ text: 'In-house reply', provider: 'inhouse', model: 'inhouse-large' });
+        expect(calls).toMatchObject([{ model: 'inhouse-large', maxTokens: 1024, temperature: 0.7 }]);
+    });
+
+    it('passes the credential to adapter factories', async () => {
+        const credentials: unknown[] = [];
+        registerProvider('inhouse', (credential) => {
+            credentials.push(credential);
+            return inHouseAdapter([]);
+        }, { credentialEnv: 'INHOUSE_API_KEY' });
+
+        await createLLMClient({ credentials: { inhouse: 'secret' } }).generateText({ ...request, model: { inhouse: 'small' }, fallbackOrder: ['inhouse'] });
+
+        expect(credentials).toEqual(['secret']);
+    });
+
+    it('replaces a provider registered again under the same name', async () => {
+        registerProvider('inhouse', inHouseAdapter([], 'First'));
+        const client = createLLMClient({ fallbackOrder: ['inhouse'] });
+        await client.generateText({ ...request, model: { inhouse: 'small' } });
+
+        registerProvider('inhouse', inHouseAdapter([], 'Second'));
+
+        expect((await client.generateText({ ...request, model: { inhouse: 'small' } })).text).toBe('Second');
+    });
+
+    it('skips unknown providers in the fallback order', async () => {
+        registerProvider('inhouse', inHouseAdapter([]));
+
+        const response = await generateText({ ...request, model: { unknown: 'model', inhouse: 'small' }, fallbackOrder: ['unknown', 'inhouse'] });
+
+        expect(response.provider).toBe('inhouse');
+        await expect(generateText({ ...request, model: { unknown: 'model' }, fallbackOrder: ['unknown'] }))
+            .rejects.toMatchObject({ code: 'UNKNOWN_PROVIDER' });
+    });
+
+    it('lists the built-in and registered providers', () => {
+        registerProvider('inhouse', inHouseAdapter([]));
+
+        expect(listProviders()).toEqual(expect.arrayContaining(['google', 'anthropic', 'openai', 'kling', 'venice', 'xai', 'mock', 'inhouse']));
+        unregisterProvider('inhouse');
+        expect(listProviders()).not.toContain('inhouse');
+        expect(getProvider('inhouse')).toBeUndefined();
+    });
+});
@@ -0,0 +1,159 @@
+import { AnthropicAdapter } from '../adapters/anthropic';
+import { GoogleAdapter } from '../adapters/google';
+import { OpenAIAdapter } from '../adapters/openai';
+import { KlingAdapter, KlingCredential } from '../adapters/kling';
+import { VeniceAdapter } from '../adapters/venice';
+import { XAIAdapter } from '../adapters/xai';
+import { MockAdapter } from '../adapters/mock';
+import { DocumentMimeType, LLMProvider, LLMReasoning, SamplingParameter } from '../index';
+import { ProviderAdapter, ProviderAdapterFactory } from '../types';
+import type { ImageInputLimits } from './images';
+
+// Provider registry - every generate* call dispatches through the adapters registered here
+
+export type ModelUseCase = 'text' | 'image' | 'structured' | 'vision';
+
+export type ProviderRegistrationOptions = {
+    credentialEnv?: string | { [field: string]: string }; // Env var(s) holding the credential passed to the adapter factory
+    models?: { [useCase in ModelUseCase]?: string }; // Default model per use case
+    samplingParameters?: SamplingParameter[]; // Sampling parameters the adapter maps, default all of them are passed through
+    supportsReasoning?: (model: string, reasoning: LLMReasoning) => boolean; // Whether a model takes the reasoning option, default every model does
+    imageInput?: ImageInputLimits; // Image formats, sizes and sources the provider accepts, default images are only validated
+    documentInput?: DocumentMimeType[]; // Document types the provider accepts, text documents are sent as text to the others
+}
+
+export type ProviderRegistration = ProviderRegistrationOptions & {
+    name: LLMProvider;
+    adapter: ProviderAdapter | ProviderAdapterFactory;
+}
+
+const registry: { [name: string]: ProviderRegistration } = {};
+
+/**
+ * Register a provider so it can be used in `model` and `fallbackOrder`
+ * @param name Provider name - registering an existing name replaces it
+ * @param adapter Adapter instance, or a factory receiving the provider's credential
+ * @param options Credential env var and default models
+ */
+export function registerProvider(
+    name: LLMProvider,
+    adapter: ProviderAdapter | ProviderAdapterFactory,
+    options: ProviderRegistrationOptions = {}
+): void {
+    registry[name] = { name, adapter, ...options };
+}
+
+export function unregisterProvider(name: LLMProvider): void {
+    delete registry[name];
+}
+
+export function getProvider(name: LLMProvider): ProviderRegistration | undefined {
+    return registry[name];
+}
+
+export function listProviders(): LLMProvider[] {
+    return Object.keys(registry);
+}
+
+// Default models of every registered provider for a use case
+export function getDefaultModels(useCase: ModelUseCase): { [provider: string]: string } {
+    const models: { [provider: string]: string } = {};
+    for (const registration of Object.values(registry)) {
+        const model = registration.models?.[useCase];
+        if (model) {
+            models[registration.name] = model;
+        }
+    }
+    return models;
+}
+
+// Sampling parameters of the OpenAI chat completions API, also used by xAI
+const OPENAI_SAMPLING: SamplingParameter[] = ['topP', 'stopSequences', 'seed', 'presencePenalty', 'frequencyPenalty'];
+
+const MB = 1024 * 1024;
+
+// Built-in providers
+registerProvider('google', (apiKey) => new GoogleAdapter(apiKey as string), {
+    credentialEnv: 'GOOGLE_AI_API_KEY',
+    samplingParameters: ['topP', 'topK', 'stopSequences', 'seed', 'presencePenalty', 'frequencyPenalty'],
+    // Pro models only think, they reject a thinking budget of 0
+    supportsReasoning: (model, reasoning) => reasoning !== 'off' || !/^gemini-(2\.5|3)-pro/.test(model),
+    imageInput: { formats: ['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'], maxBytes: 15 * MB },
+    documentInput: ['application/pdf', 'text/plain'],
+    models: {
+        text: 'gemini-2.5-flash',
+        image: 'gemini-2.5-flash-image-preview',
+        structured: 'gemini-2.5-flash',
+        vision: 'gemini-2.5-flash'
+    }
+});
+
+registerProvider('anthropic', (apiKey) => new AnthropicAdapter(apiKey as string), {
+    credentialEnv: 'ANTHROPIC_API_KEY',
+    samplingParameters: ['topP', 'topK', 'stopSequences'],
+    // 5 MB of base64 per image
+    imageInput: { formats: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'], maxBytes: 3.75 * MB, maxDimension: 8000, remoteUrls: true },
+    documentInput: ['application/pdf', 'text/plain'],
+    models: {
+        text: 'claude-haiku-4-5',
+        structured: 'claude-haiku-4-5',
+        vision: 'claude-sonnet-4-5'
+    }
+});
+
+registerProvider('openai', (apiKey) => new OpenAIAdapter(apiKey as string), {
+    credentialEnv: 'OPENAI_API_KEY',
+    samplingParameters: OPENAI_SAMPLING,
+    imageInput: { formats: ['image/png', 'image/jpeg', 'image/webp', 'image/gif'], maxBytes: 20 * MB, remoteUrls: true },
+    documentInput: ['application/pdf'],
+    models: {
+        text: 'gpt-4o-mini',
+        image: 'gpt-image-1',
+        structured: 'gpt-4o-mini',
+        vision: 'gpt-4o'
+    }
+});
+
+registerProvider('kling', (credential) => new KlingAdapter(credential as KlingCredential), {
+    credentialEnv: { id: 'KLING_ACCESS_KEY_ID', secret: 'KLING_ACCESS_KEY_SECRET' },
+    models: {
+        image: 'kling-v1-5'
+    }
+});
+
+registerProvider('venice', (apiKey) => new VeniceAdapter(apiKey as string), {
+    credentialEnv: 'VENICE_API_KEY',
+    samplingParameters: [...OPENAI_SAMPLING, 'topK'],
+    imageInput: { formats: ['image/png', 'image/jpeg', 'image/webp'], maxBytes: 20 * MB },
+    models: {
+        text: 'venice-uncensored',
+        image: 'lustify-sdxl',
+        structured: 'venice-uncensored',
+        vision: 'venice-uncensored'
+    }
+});
+
+registerProvider('xai', (apiKey) => new XAIAdapter(apiKey as string), {
+    credentialEnv: 'XAI_API_KEY',
+    samplingParameters: OPENAI_SAMPLING,
+    // Only Grok 3 mini takes reasoning_effort, Grok 4 models reason on their own and reject it
+    supportsReasoning: (model) => model.startsWith('grok-3-mini'),
+    imageInput: { formats: ['image/jpeg', 'image/png'], maxBytes: 10 * MB },
+    models: {
+        text: 'grok-4-fast-non-reasoning',
+        image: 'grok-2-image',
+        structured: 'grok-4-fast-non-reasoning',
+        vision: 'grok-4-fast-non-reasoning'
+    }
+});
+
+// Scripted replies for tests - see setMockResponses
+registerProvider('mock', () => new MockAdapter(), {
+    documentInput: ['application/pdf', 'text/plain'],
+    models: {
+        text: 'default',
+        image: 'default',
+        structured: 'default',
+        vision: 'default'
+    }
+});
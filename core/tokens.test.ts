@@ -0,0 +1,117 @@
+import { countTokens, generateText, getMockCalls, LLMMessage, registerProvider, resetMock, setMockResponses, unregisterProvider, unregisterTrackingSink } from '../index';
+import { MockAdapter } from '../adapters/mock';
+import { estimateTokens, getModelContextWindow, removeModelContextWindow, setModelContextWindow } from './tokens';
+
+// Each turn is 50 tokens of text plus 4 of overhead
+const turn = (role: 'user' | 'assistant', letter: string): LLMMessage => ({ role, content: letter.repeat(200) });
+const history = [turn('user', 'a'), turn('assistant', 'b'), turn('user', 'c')];
+
+const request = {
+    model: { mock: 'small', backup: 'large' },
+    system: '',
+    messages: history,
+    maxToken: 10,
+    fallbackOrder: ['mock', 'backup'],
+    retry: 0,
+    errorLevel: 'error' as const
+};
+
+beforeAll(() => {
+    unregisterTrackingSink('console');
+    registerProvider('backup', () => new MockAdapter());
+    setModelContextWindow('mock', 'small', 100);
+    setModelContextWindow('backup', 'large', 1000);
+});
+
+afterAll(() => {
+    unregisterProvider('backup');
+    removeModelContextWindow('mock', 'small');
+    removeModelContextWindow('backup', 'large');
+});
+
+beforeEach(() => {
+    resetMock();
+});
+
+describe('estimateTokens', () => {
+    it('counts about 4 ASCII characters or 1 other character per token', () => {
+        expect(estimateTokens('abcdefgh', [])).toBe(2);
+        expect(estimateTokens('', [{ role: 'user', content: '안녕하세요' }])).toBe(4 + 5);
+    });
+
+    it('adds a flat count per image', () => {
+        const message: LLMMessage = { role: 'user', content: [{ type: 'image', image: { source: 'https://example.com/a.png' } }] };
+
+        expect(estimateTokens('', [message])).toBe(4 + 1000);
+    });
+});
+
+describe('context windows', () => {
+    it('falls back to the longest model name a version starts with', () => {
+        setModelContextWindow('mock', 'tiny', 10);
+        setModelContextWindow('mock', 'tiny-v2', 20);
+
+        expect(getModelContextWindow('mock', 'tiny-v2-0901')).toBe(20);
+        expect(getModelContextWindow('mock', 'tiny-v1')).toBe(10);
+        expect(getModelContextWindow('mock', 'huge')).toBeUndefined();
+        removeModelContextWindow('mock', 'tiny');
+        removeModelContextWindow('mock', 'tiny-v2');
+    });
+});
+
+describe('countTokens', () => {
+    afterEach(() => {
+        unregisterProvider('counting');
+    });
+
+    it('uses the provider count when it has one', async () => {
+        registerProvider('counting', { generateText: async () => ({ response: '' }), countTokens: async () => 42 });
+
+        expect(await countTokens({ provider: 'counting', model: 'any', messages: history })).toEqual({ tokens: 42, estimated: false, contextWindow: undefined });
+    });
+
+    it('uses the local estimate when the provider has no count or it fails', async () => {
+        registerProvider('counting', {
+            generateText: async () => ({ response: '' }),
+            countTokens: async () => {
+                throw new Error('Count endpoint is down');
+            }
+        });
+
+        expect(await countTokens({ provider: 'mock', model: 'small', messages: history })).toEqual({ tokens: 162, estimated: true, contextWindow: 100 });
+        expect(await countTokens({ provider: 'counting', model: 'any', messages: history, errorLevel: 'error' })).toMatchObject({ tokens: 162, estimated: true });
+    });
+
+    it('fails for an unknown provider', async () => {
+        await expect(countTokens({ provider: 'unknown', model: 'any', messages: history })).rejects.toMatchObject({ code: 'UNKNOWN_PROVIDER' });
+    });
+});
+
+describe('contextOverflow', () => {
+    it('does not check the context window by default', async () => {
+        await generateText(request);
+
+        expect(getMockCalls()[0].model).toBe('small');
+    });
+
+    it('rejects a request that does not fit the first provider without calling any', async () => {
+        await expect(generateText({ ...request, contextOverflow: 'reject' })).rejects.toMatchObject({ code: 'CONTEXT_OVERFLOW' });
+        expect(getMockCalls()).toHaveLength(0);
+    });
+
+    it('skips the providers the request does not fit', async () => {
+        const response = await generateText({ ...request, contextOverflow: 'skip' });
+
+        expect(response.provider).toBe('backup');
+        expect(getMockCalls()).toMatchObject([{ model: 'large', messages: history }]);
+    });
+
+    it('drops the oldest turns until the request fits every provider', async () => {
+        setMockResponses('small', { text: 'Fits now' });
+
+        const response = await generateText({ ...request, contextOverflow: 'drop_oldest' });
+
+        expect(response).toMatchObject({ text: 'Fits now', provider: 'mock' });
+        expect(getMockCalls()[0].messages).toEqual([history[2]]);
+    });
+});
@@ -0,0 +1,112 @@
+import { LLMDocument, LLMMessage, LLMProvider } from '../index';
+
+// Context windows - the most tokens a model takes for prompt and reply together
+
+// Flat estimate per image, providers charge between ~250 and ~1600 depending on size
+const IMAGE_TOKENS = 1000;
+
+// Flat estimate per PDF or unread file, providers charge ~1500-3000 per PDF page
+const DOCUMENT_TOKENS = 3000;
+
+// Role and separators around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const contextWindows: { [provider: string]: { [model: string]: number } } = {};
+
+/**
+ * Set the context window of a model
+ * @param provider Provider name
+ * @param model Model name - also used for versions of the model without their own entry
+ * @param tokens Most tokens of prompt and reply together
+ */
+export function setModelContextWindow(provider: LLMProvider, model: string, tokens: number): void {
+    if (!contextWindows[provider]) {
+        contextWindows[provider] = {};
+    }
+    contextWindows[provider][model] = tokens;
+}
+
+export function removeModelContextWindow(provider: LLMProvider, model: string): void {
+    delete contextWindows[provider]?.[model];
+}
+
+// Context window of a model, falling back to the longest model name it starts with
+export function getModelContextWindow(provider: LLMProvider, model: string): number | undefined {
+    const models = contextWindows[provider];
+    if (!models) {
+        return undefined;
+    }
+    if (models[model] !== undefined) {
+        return models[model];
+    }
+    const prefix = Object.keys(models)
+        .filter(name => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? models[prefix] : undefined;
+}
+
+/**
+ * Estimate the prompt tokens of a request without calling the provider
+ * @param system System prompt
+ * @param messages Conversation messages
+ * @returns About 4 ASCII characters or 1 other character (e.g. Korean) per token, plus a flat count per image and PDF
+ */
+export function estimateTokens(system: string, messages: LLMMessage[]): number {
+    let tokens = textTokens(system);
+    for (const message of messages) {
+        tokens += MESSAGE_OVERHEAD_TOKENS;
+        if (typeof message.content === 'string') {
+            tokens += textTokens(message.content);
+            continue;
+        }
+        for (const part of message.content) {
+            if (part.type === 'image') {
+                tokens += IMAGE_TOKENS;
+            } else if (part.type === 'document') {
+                tokens += documentTokens(part.document);
+            } else if (part.type === 'text') {
+                tokens += textTokens(part.text || '');
+            } else if (part.type === 'thinking') {
+                tokens += textTokens(part.thinking?.text || '');
+            } else {
+                tokens += textTokens(JSON.stringify(part.toolCall ?? part.toolResult ?? ''));
+            }
+        }
+    }
+    return tokens;
+}
+
+function documentTokens(document: LLMDocument | undefined): number {
+    const source = document?.source;
+    if (source === undefined || (typeof source === 'object' && !Buffer.isBuffer(source))) {
+        return DOCUMENT_TOKENS;
+    }
+    const data = Buffer.isBuffer(source) ? source : Buffer.from(source.replace(/^data:[^,]*;base64,/, ''), 'base64');
+    return data.subarray(0, 5).toString('latin1') === '%PDF-' ? DOCUMENT_TOKENS : textTokens(data.toString('utf8'));
+}
+
+function textTokens(text: string): number {
+    const asciiLength = text.replace(/[^\x00-\x7f]/g, '').length;
+    return Math.ceil(asciiLength / 4) + (text.length - asciiLength);
+}
+
+// Built-in context windows
+setModelContextWindow('google', 'gemini-2.5-pro', 1_048_576);
+setModelContextWindow('google', 'gemini-2.5-flash', 1_048_576);
+setModelContextWindow('google', 'gemini-2.5-flash-lite', 1_048_576);
+setModelContextWindow('google', 'gemini-2.5-flash-image', 32_768);
+
+setModelContextWindow('anthropic', 'claude-opus-4', 200_000);
+setModelContextWindow('anthropic', 'claude-sonnet-4', 200_000);
+setModelContextWindow('anthropic', 'claude-haiku-4-5', 200_000);
+setModelContextWindow('anthropic', 'claude-3-5-haiku', 200_000);
+
+setModelContextWindow('openai', 'gpt-5', 400_000);
+setModelContextWindow('openai', 'gpt-4.1', 1_047_576);
+setModelContextWindow('openai', 'gpt-4o', 128_000);
+setModelContextWindow('openai', 'o4-mini', 200_000);
+
+setModelContextWindow('xai', 'grok-4', 256_000);
+setModelContextWindow('xai', 'grok-4-fast', 2_000_000);
+
+setModelContextWindow('venice', 'venice-uncensored', 32_768);
@@ -0,0 +1,128 @@
+import { promises as fs } from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { generateText, LLMTracking, registerProvider, resetMock, setMockResponses, unregisterProvider } from '../index';
+import { MockAdapter } from '../adapters/mock';
+import { flushTracking, httpTrackingSink, jsonlFileTrackingSink, logTracking, registerTrackingSink, unregisterTrackingSink } from './tracking';
+
+const record = (trackid: string): LLMTracking => ({
+    trackid,
+    provider: 'mock',
+    model: 'default',
+    itoken: 1,
+    otoken: 2,
+    ttoken: 0,
+    started_at: 0,
+    elapsed_seconds: 0,
+    request_type: 'text',
+    caller: 'test'
+});
+
+// Sinks receive records asynchronously
+const settled = () => new Promise(resolve => setImmediate(resolve));
+
+beforeAll(() => {
+    unregisterTrackingSink('console');
+});
+
+afterEach(() => {
+    for (const name of ['test', 'failing', 'file', 'http']) {
+        unregisterTrackingSink(name);
+    }
+});
+
+describe('tracking sinks', () => {
+    it('writes every record to every sink, even when one fails', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+        const records: LLMTracking[] = [];
+        registerTrackingSink('failing', () => {
+            throw new Error('Sink is down');
+        });
+        registerTrackingSink('test', entry => {
+            records.push(entry);
+        });
+
+        logTracking(record('a'));
+        logTracking(record('b'));
+        await settled();
+
+        expect(records.map(entry => entry.trackid)).toEqual(['a', 'b']);
+        expect(warn).toHaveBeenCalledWith('[LLM-WARN] Tracking sink failing failed: Sink is down');
+        warn.mockRestore();
+    });
+
+    it('appends one JSON line per record to a file', async () => {
+        const file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'tracking-')), 'llm.jsonl');
+        registerTrackingSink('file', jsonlFileTrackingSink(file));
+
+        logTracking(record('a'));
+        logTracking(record('b'));
+        await settled();
+        await flushTracking();
+
+        const lines = (await fs.readFile(file, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+        expect(lines).toMatchObject([{ trackid: 'a', logger: 'LLM_TRACKING' }, { trackid: 'b', logger: 'LLM_TRACKING' }]);
+    });
+
+    it('posts records in batches and the rest on flush', async () => {
+        const batches: LLMTracking[][] = [];
+        const server = http.createServer((request, response) => {
+            let body = '';
+            request.on('data', chunk => body += chunk);
+            request.on('end', () => {
+                batches.push(JSON.parse(body));
+                response.end();
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const { port } = server.address() as AddressInfo;
+            registerTrackingSink('http', httpTrackingSink({ url: `http://127.0.0.1:${port}/tracking`, batchSize: 2 }));
+
+            for (const trackid of ['a', 'b', 'c']) {
+                logTracking(record(trackid));
+            }
+            await settled();
+            await flushTracking();
+
+            expect(batches.map(batch => batch.map(entry => entry.trackid))).toEqual([['a', 'b'], ['c']]);
+        } finally {
+            server.close();
+        }
+    });
+
+    it('writes a record per provider attempt with the shared trackid and the request metadata', async () => {
+        const records: LLMTracking[] = [];
+        registerTrackingSink('test', entry => {
+            records.push(entry);
+        });
+        registerProvider('backup', () => new MockAdapter());
+        resetMock();
+        setMockResponses('primary', { error: 'server_error' });
+
+        try {
+            await generateText({
+                model: { mock: 'primary', backup: 'backup' },
+                system: '',
+                messages: [{ role: 'user', content: 'Hello' }],
+                fallbackOrder: ['mock', 'backup'],
+                retry: 0,
+                caller: 'recap-writer',
+                metadata: { titleId: 't1', episode: 3 },
+                errorLevel: 'error'
+            });
+            await settled();
+        } finally {
+            unregisterProvider('backup');
+        }
+
+        expect(records).toMatchObject([
+            { provider: 'mock', attempt: 0, error: expect.any(String), caller: 'recap-writer', metadata: { titleId: 't1', episode: 3 } },
+            { provider: 'backup', attempt: 1, caller: 'recap-writer', metadata: { titleId: 't1', episode: 3 } }
+        ]);
+        expect(records[1].error).toBeUndefined();
+        expect(records[1].trackid).toBe(records[0].trackid);
+    });
+});
@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import axios from 'axios';
+import { LLMTracking } from '../index';
+
+// Tracking sinks - every LLMTracking record is written to all registered sinks
+
+export type TrackingSink = {
+    write(record: LLMTracking): void | Promise<void>;
+    flush?(): Promise<void>; // Sends buffered records, called by flushTracking
+}
+
+export type HttpTrackingSinkOptions = {
+    url: string;
+    headers?: { [name: string]: string };
+    batchSize?: number; // Records per POST (default 50)
+    flushIntervalMs?: number; // Longest time a record waits in the buffer (default 5000)
+}
+
+const sinks: { [name: string]: TrackingSink } = {};
+
+/**
+ * Register a sink that receives every tracking record
+ * @param name Sink name - registering an existing name replaces it
+ * @param sink Sink, or a callback receiving each record
+ */
+export function registerTrackingSink(name: string, sink: TrackingSink | ((record: LLMTracking) => void | Promise<void>)): void {
+    sinks[name] = typeof sink === 'function' ? { write: sink } : sink;
+}
+
+export function unregisterTrackingSink(name: string): void {
+    delete sinks[name];
+}
+
+// Flush the buffered records of all sinks, e.g. before the process exits
+export async function flushTracking(): Promise<void> {
+    await Promise.all(Object.values(sinks).map(sink => sink.flush?.().catch(error => {
+        console.warn(`[LLM-WARN] Failed to flush tracking sink: ${error.message}`);
+    })));
+}
+
+// Write a record to all sinks - a failing sink never fails the request
+export function logTracking(record: LLMTracking): void {
+    for (const [name, sink] of Object.entries(sinks)) {
+        Promise.resolve()
+            .then(() => sink.write(record))
+            .catch(error => {
+                console.warn(`[LLM-WARN] Tracking sink ${name} failed: ${error.message}`);
+            });
+    }
+}
+
+function formatRecord(record: LLMTracking) {
+    return {
+        timestamp: new Date().toISOString(),
+        level: 'INFO',
+        logger: 'LLM_TRACKING',
+        ...record
+    };
+}
+
+// One JSON line per record on stdout
+export function consoleTrackingSink(): TrackingSink {
+    return {
+        write: (record) => {
+            console.log(JSON.stringify(formatRecord(record)));
+        }
+    };
+}
+
+// Appends one JSON line per record to a file
+export function jsonlFileTrackingSink(path: string): TrackingSink {
+    // Appends are chained so records keep their order
+    let pending: Promise<void> = Promise.resolve();
+
+    return {
+        write: (record) => {
+            const line = JSON.stringify(formatRecord(record)) + '\n';
+            pending = pending.then(() => fs.appendFile(path, line));
+            return pending;
+        },
+        flush: () => pending.catch(() => undefined)
+    };
+}
+
+// POSTs records in batches as a JSON array
+export function httpTrackingSink(options: HttpTrackingSinkOptions): TrackingSink {
+    const batchSize = options.batchSize || 50;
+    const flushIntervalMs = options.flushIntervalMs || 5000;
+    let buffer: LLMTracking[] = [];
+    let timer: NodeJS.Timeout | undefined;
+
+    const flush = async () => {
+        if (timer) {
+            clearTimeout(timer);
+            timer = undefined;
+        }
+        if (buffer.length === 0) {
+            return;
+        }
+        const batch = buffer;
+        buffer = [];
+        await axios.post(options.url, batch, { headers: { 'Content-Type': 'application/json', ...options.headers } });
+    };
+
+    return {
+        write: (record) => {
+            buffer.push(record);
+            if (buffer.length >= batchSize) {
+                return flush();
+            }
+            if (!timer) {
+                // Buffered records do not keep the process alive, call flushTracking before exiting
+                timer = setTimeout(() => {
+                    flush().catch(error => {
+                        console.warn(`[LLM-WARN] Failed to send tracking records: ${error.message}`);
+                    });
+                }, flushIntervalMs);
+                timer.unref();
+            }
+        },
+        flush
+    };
+}
+
+registerTrackingSink('console', consoleTrackingSink());
@@ -1,10 +1,27 @@
-import { AnthropicAdapter } from './adapters/anthropic';
-import { GoogleAdapter } from './adapters/google';
-import { OpenAIAdapter } from './adapters/openai';
-import { KlingAdapter } from './adapters/kling';
-import { VeniceAdapter } from './adapters/venice';
-import { XAIAdapter } from './adapters/xai';
-import { retryWithBackoff, getApiKey, parseLLMJson, uploadBase64ImageToS3, log, generateTrackId, logTracking, isValidBase64 } from './utils';
+import { createLLMClient } from './core/client';
+import type { Conversation, ConversationOptions } from './core/conversation';
+
+export { createLLMClient } from './core/client';
+export type { LLMClient, LLMClientConfig, LLMClientDefaults } from './core/client';
+export { registerProvider, unregisterProvider, getProvider, listProviders } from './core/registry';
+export type { ModelUseCase, ProviderRegistration, ProviderRegistrationOptions } from './core/registry';
+export { configureCircuitBreaker, getProviderHealth, resetProviderHealth } from './core/health';
+export type { CircuitBreakerOptions, CircuitState, HealthStats, ModelHealth, ProviderHealth } from './core/health';
+export { setModelPricing, removeModelPricing, getModelPricing, estimateCost } from './core/pricing';
+export type { ModelPricing } from './core/pricing';
+export { registerTrackingSink, unregisterTrackingSink, flushTracking, consoleTrackingSink, jsonlFileTrackingSink, httpTrackingSink } from './core/tracking';
+export type { TrackingSink, HttpTrackingSinkOptions } from './core/tracking';
+export { configureResponseCache, clearResponseCache, memoryCacheStore, fileCacheStore } from './core/cache';
+export type { ResponseCacheEntry, ResponseCacheStore, ResponseCacheOptions } from './core/cache';
+export { useCassette, ejectCassette } from './core/cassette';
+export type { CassetteMode, CassetteOptions, CassetteInteraction } from './core/cassette';
+export { setModelContextWindow, removeModelContextWindow, getModelContextWindow, estimateTokens } from './core/tokens';
+export type { Conversation, ConversationOptions, ConversationTurnOptions, ConversationState, ConversationSummarization } from './core/conversation';
+export { detectImageType, configureImageSources } from './core/images';
+export type { ImageMimeType, ImageInputLimits, ImageFetcher, ImageSourceOptions } from './core/images';
+export { setMockResponses, getMockCalls, resetMock } from './adapters/mock';
+export type { MockResponse, MockFailure, MockCall } from './adapters/mock';
+export type { ProviderAdapter, ProviderAdapterFactory, AdapterResponse, AdapterImageResponse, AdapterTextOptions, AdapterUsage, StreamChunk, ImageGenerationOptions, ProviderCredential } from './types';
 
 // LLM Layer - Unified interface for multiple LLM providers
 // Exports: generateText, generateImage, generateStructuredData
@@ -13,14 +30,69 @@ import { retryWithBackoff, getApiKey, parseLLMJson, uploadBase64ImageToS3, log,
 export type LLMMessage = {
     role: 'user' | 'assistant' | 'system';
     content: string | {
-        type: 'text' | 'image';
+        type: 'text' | 'image' | 'document' | 'tool_call' | 'tool_result' | 'thinking';
         text?: string;
-        image?: string; // base64
+        image?: LLMImageSource; // for 'image' parts
+        mimeType?: string; // for 'image' parts, set from the image bytes before sending
+        document?: LLMDocument; // for 'document' parts
+        toolCall?: LLMToolCall; // for 'tool_call' parts in assistant messages
+        toolResult?: LLMToolResult; // for 'tool_result' parts in user messages
+        thinking?: LLMThinking; // for 'thinking' parts in assistant messages
     }[];
 }
 
-// Provider types
-export type LLMProvider = 'google' | 'anthropic' | 'openai' | 'kling' | 'venice' | 'xai';
+// Image input: base64, a base64 data URL, image bytes, a remote URL or a local file
+export type LLMImageSource = string | Buffer | { url: string } | { path: string };
+
+export type DocumentMimeType = 'application/pdf' | 'text/plain';
+
+// Document input: a PDF or plain-text file
+export type LLMDocument = {
+    source: string | Buffer | { path: string }; // base64, a base64 data URL, the file bytes or a local file
+    mimeType?: DocumentMimeType; // Picks providers before a file is read, default from the content or the .pdf extension
+    name?: string; // Shown to the model, default the file name of a path
+}
+
+// Thinking of an assistant turn, sent back in tool rounds so the provider can continue its reasoning
+export type LLMThinking = {
+    text: string;
+    signature?: string; // Anthropic signature, blocks without one are not sent back to Anthropic
+    redacted?: string; // Encrypted thinking (Anthropic redacted_thinking), text is empty
+}
+
+// Plain JSON Schema object
+export type JSONSchema = {
+    [key: string]: any;
+}
+
+// Tool (function) the model is allowed to call
+export type LLMTool = {
+    name: string;
+    description?: string;
+    parameters: JSONSchema; // JSON Schema of the arguments object
+    handler?: (args: any) => any | Promise<any>; // Required for autoExecuteTools
+}
+
+// Tool call requested by the model, normalized across providers
+export type LLMToolCall = {
+    id: string;
+    name: string;
+    arguments: any;
+}
+
+// Result of a tool call, sent back to the model
+export type LLMToolResult = {
+    id: string;
+    name: string;
+    content: string;
+    isError?: boolean;
+}
+
+export type LLMToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+// Provider types - built-in providers, or any name added with registerProvider
+export type BuiltinProvider = 'google' | 'anthropic' | 'openai' | 'kling' | 'venice' | 'xai' | 'mock';
+export type LLMProvider = BuiltinProvider | (string & {});
 
 // Base request type with common fields
 type BaseLLMRequest = {
@@ -31,15 +103,101 @@ type BaseLLMRequest = {
         kling?: string;
         venice?: string;
         xai?: string;
+        mock?: string;
+        [provider: string]: string | undefined; // Registered providers
     };
     fallbackOrder?: LLMProvider[];
-    retry?: number | number[];
+    retry?: number | number[]; // Retries per provider, an array sets them per position in fallbackOrder
+    retryPolicy?: LLMRetryPolicy;
     errorLevel?: 'quiet' | 'info' | 'warn' | 'error';
     caller?: string;
+    metadata?: LLMTrackingMetadata; // Copied into every tracking record of the request
+    signal?: AbortSignal; // Cancels the request, including retries and fallback
+    timeoutMs?: number; // Overall time limit across all attempts
+    attemptTimeoutMs?: number; // Time limit per provider attempt, a timed out attempt falls back to the next provider
+}
+
+// How failed attempts are retried before falling back to the next provider
+export type LLMRetryPolicy = {
+    initialDelayMs?: number; // First backoff delay, doubled on each retry (default 1000)
+    maxDelayMs?: number; // Upper bound of a backoff delay (default 30000)
+    maxRetryAfterMs?: number; // A longer Retry-After falls back to the next provider instead of waiting (default 60000)
+    jitter?: boolean; // Randomize backoff delays (default true)
+    isRetryable?: (error: any) => boolean; // Replaces the built-in classification of errors
+}
+
+// Tool calling options for text and stream requests
+type ToolCallingOptions = {
+    tools?: LLMTool[];
+    toolChoice?: LLMToolChoice;
+    autoExecuteTools?: boolean; // Run tool handlers and loop until the model stops calling tools
+    maxToolRounds?: number; // Upper bound of tool rounds in autoExecuteTools mode
+}
+
+// Continuation of replies cut off by maxToken, for text and stream requests
+type ContinuationOptions = {
+    autoContinue?: boolean; // Ask for the rest of a reply that hit maxToken and join the pieces
+    maxContinuations?: number; // Upper bound of continuation requests per reply
+}
+
+// false skips the response cache for the request, an object sets the lifetime of the entries it stores
+export type RequestCacheOption = boolean | { ttlMs?: number };
+
+// Response cache use - see configureResponseCache, streams do not use the cache
+type CacheOptions = {
+    cache?: RequestCacheOption; // Default true, only used when a cache store is configured
+}
+
+// What to do before the call when the prompt plus maxToken exceeds a model's context window
+// 'reject': fail without calling any provider when the request does not fit the first provider
+// 'drop_oldest': drop the oldest turns until the request fits every provider, keeping the last message
+// 'skip': skip providers the request does not fit, trying the next one in fallbackOrder
+export type ContextOverflowStrategy = 'reject' | 'drop_oldest' | 'skip';
+
+// Pre-flight context window check, based on the local token estimate
+type ContextOptions = {
+    contextOverflow?: ContextOverflowStrategy; // Default no check
+}
+
+// Sampling parameters beyond temperature, mapped to each provider's API
+export type LLMSamplingOptions = {
+    topP?: number;
+    topK?: number;
+    stopSequences?: string[];
+    seed?: number;
+    presencePenalty?: number;
+    frequencyPenalty?: number;
+}
+
+export type SamplingParameter = keyof LLMSamplingOptions;
+
+// Sampling options for text, structured and stream requests
+type SamplingOptions = {
+    sampling?: LLMSamplingOptions;
+    strictSampling?: boolean; // Skip providers that do not support a set parameter instead of leaving it out with a warning
+}
+
+// How much the model thinks before answering - a level, or a thinking token budget
+// The levels are budgets of 2048, 8192 and 24576 tokens for providers that take a budget
+export type LLMReasoning = 'off' | 'low' | 'medium' | 'high' | { budgetTokens: number };
+
+// Reasoning options for text, structured and stream requests
+type ReasoningOptions = {
+    reasoning?: LLMReasoning; // Default the model's own behavior
+}
+
+// What to do with PDF documents for providers that do not accept them
+// 'skip': skip the provider, trying the next one in fallbackOrder
+// 'extract_text': send the text of the PDF instead, losing its layout and images
+export type DocumentFallback = 'skip' | 'extract_text';
+
+// Document options for text, structured and stream requests
+type DocumentOptions = {
+    documentFallback?: DocumentFallback; // Default 'skip'
 }
 
 // Text generation request
-export type TextGenerationRequest = BaseLLMRequest & {
+export type TextGenerationRequest = BaseLLMRequest & ToolCallingOptions & ContinuationOptions & CacheOptions & ContextOptions & SamplingOptions & ReasoningOptions & DocumentOptions & {
     system: string;
     messages: LLMMessage[];
     maxToken?: number;
@@ -47,33 +205,67 @@ export type TextGenerationRequest = BaseLLMRequest & {
 }
 
 // Image generation request
-export type ImageGenerationRequest = BaseLLMRequest & {
+export type ImageGenerationRequest = BaseLLMRequest & CacheOptions & {
     prompt: string;
     system?: string; // Optional system prompt for image generation
 
-    referenceImage?: string | string[]; 
+    referenceImage?: LLMImageSource | LLMImageSource[];
     width?: number; // For image width
     height?: number; // For image height
     quality?: 'standard' | 'hd'; // For quality settings
 }
 
 // Structured data generation request
-export type StructuredDataRequest = BaseLLMRequest & {
+export type StructuredDataRequest = BaseLLMRequest & CacheOptions & ContextOptions & SamplingOptions & ReasoningOptions & DocumentOptions & {
     system: string;
     messages: LLMMessage[];
     maxToken?: number;
     temperature?: number;
+    schema?: JSONSchema; // Enables the provider's native JSON schema mode
+    schemaName?: string; // Name reported to the provider for the schema (letters, digits, _ and -)
+    validate?: JSONSchema | StructuredDataValidator; // Checks the parsed data, failures are sent back for repair
+    maxRepairAttempts?: number; // Repair turns per provider before falling back to the next one
 }
 
+// Returns the validation errors of the parsed data, empty when valid
+export type StructuredDataValidator = (data: any) => string[] | Promise<string[]>;
+
 // Stream generation request
-export type StreamGenerationRequest = BaseLLMRequest & {
+export type StreamGenerationRequest = BaseLLMRequest & ToolCallingOptions & ContinuationOptions & ContextOptions & SamplingOptions & ReasoningOptions & DocumentOptions & {
     system: string;
     messages: LLMMessage[];
     maxToken?: number;
     temperature?: number;
+    fallbackMode?: StreamFallbackMode; // What the next provider does when a provider fails mid-stream (default 'restart')
+}
+
+// 'restart': the next provider starts over
+// 'resume': the next provider continues the text already emitted
+// 'restart_if_empty': fall back only while nothing has been emitted, otherwise the stream fails
+export type StreamFallbackMode = 'restart' | 'resume' | 'restart_if_empty';
+
+// Token count request for one provider's model
+export type TokenCountRequest = {
+    provider: LLMProvider;
+    model: string;
+    system?: string;
+    messages: LLMMessage[];
+    signal?: AbortSignal;
+    errorLevel?: 'quiet' | 'info' | 'warn' | 'error';
 }
 
-// Tracking information
+export type TokenCount = {
+    tokens: number; // Prompt tokens
+    estimated: boolean; // Local estimate, when the provider has no count endpoint or it failed
+    contextWindow?: number; // From the context window table, missing when the model has no entry
+}
+
+// Attribution of a request, e.g. user id, title id or feature flag
+export type LLMTrackingMetadata = {
+    [key: string]: string | number | boolean | null | undefined;
+}
+
+// Tracking information - one record per provider attempt, sharing the request's trackid
 export type LLMTracking = {
     trackid: string;
     provider: LLMProvider;
@@ -83,229 +275,225 @@ export type LLMTracking = {
     started_at: number;
     elapsed_seconds: number;
     model: string;
-    request_type: 'text' | 'image' | 'structured' | 'stream';
+    request_type: 'text' | 'image' | 'structured' | 'stream' | 'structured_stream';
     caller: string;
     error?: string;
     retry_count?: number;
+    repair_attempt?: number;
+    continuations?: number; // Continuation requests made with autoContinue, their usage is included
+    estimated_cost?: number; // USD, from the pricing table - missing when the model has no prices
+    attempt?: number; // Index of the provider attempt within the fallback order, starting at 0
+    cache_hit?: boolean; // Every call of the record was answered from the response cache, its tokens are not counted
+    metadata?: LLMTrackingMetadata;
+}
+
+// Why the model stopped generating
+export type LLMFinishReason = 'stop' | 'length' | 'content_filter' | 'tool_call' | 'error';
+
+// Token usage of a response
+export type LLMUsage = {
+    promptTokens: number;
+    completionTokens: number; // Excluding thinking tokens
+    thinkingTokens: number;
+    cachedTokens: number; // Part of promptTokens
+    totalTokens: number;
 }
 
 // Response types
 export type LLMResponse<T = any> = {
     text?: string;
+    thinking?: string; // Thinking text or summary the provider returned, separate from the answer
     imageUrl?: string; 
     data: T;
     provider: LLMProvider;
     model: string;
-    usage?: {
-        promptTokens?: number;
-        completionTokens?: number;
-        totalTokens?: number;
-    };
+    toolCalls?: LLMToolCall[]; // Tool calls left for the caller to handle
+    messages?: LLMMessage[]; // Conversation including executed tool rounds (autoExecuteTools only)
+    estimatedCost?: number; // USD spent on the provider that answered, missing when the model has no prices
+    usage?: LLMUsage; // Summed over tool rounds, retries and repair turns with the provider that answered
+    finishReason?: LLMFinishReason;
+    cached?: boolean; // Answered from the response cache without calling the provider
 }
 
-// Response types
-export type StreamLLMResponse<T = any> = {
-    text: string;
+// Stream events - generateStream yields these, discriminated by `type`
+type StreamEventBase<T> = {
+    text: string; // Text of 'delta' events, empty for the other events except 'fallback'
     imageUrl?: string;
     data?: T;
     provider: LLMProvider;
     model: string;
-    streamStatus?: 'error';
+    // Fields of specific events, optional here so they can be read without checking `type`
+    toolCalls?: LLMToolCall[];
+    streamStatus?: 'error' | 'done';
     error?: LLMError;
+    usage?: LLMUsage;
+    finishReason?: LLMFinishReason;
+    estimatedCost?: number;
+    thinking?: string;
+};
+
+// A provider attempt starts
+export type StreamStartEvent<T = any> = StreamEventBase<T> & {
+    type: 'start';
+    attempt: number; // Index of the provider attempt, starting at 0
+};
+
+export type StreamDeltaEvent<T = any> = StreamEventBase<T> & {
+    type: 'delta';
+};
+
+// Thinking text or summary, streamed separately from the answer
+export type StreamThinkingEvent<T = any> = StreamEventBase<T> & {
+    type: 'thinking';
+    thinking: string;
+};
+
+export type StreamToolCallsEvent<T = any> = StreamEventBase<T> & {
+    type: 'tool_calls';
+    toolCalls: LLMToolCall[];
+};
+
+// Usage reported by the provider so far
+export type StreamUsageEvent<T = any> = StreamEventBase<T> & {
+    type: 'usage';
+    usage: LLMUsage;
+};
+
+// The provider failed and the next one is tried - `text` holds what the failed provider emitted
+export type StreamFallbackEvent<T = any> = StreamEventBase<T> & {
+    type: 'fallback';
+    streamStatus: 'error';
+    error: LLMError;
+    finishReason: 'error';
+    nextProvider: LLMProvider;
+    nextModel: string;
+    resumed: boolean; // The next provider continues the emitted text instead of starting over
+};
+
+// Last event of a successful stream
+export type StreamDoneEvent<T = any> = StreamEventBase<T> & {
+    type: 'done';
+    streamStatus: 'done';
+    usage: LLMUsage;
+    finishReason: LLMFinishReason;
+    messages?: LLMMessage[]; // Conversation including executed tool rounds (autoExecuteTools only)
+};
+
+// Last event of a failed stream
+export type StreamErrorEvent<T = any> = StreamEventBase<T> & {
+    type: 'error';
+    streamStatus: 'error';
+    error: LLMError;
+    finishReason: 'error';
+};
+
+export type StreamLLMResponse<T = any> =
+    | StreamStartEvent<T>
+    | StreamDeltaEvent<T>
+    | StreamThinkingEvent<T>
+    | StreamToolCallsEvent<T>
+    | StreamUsageEvent<T>
+    | StreamFallbackEvent<T>
+    | StreamDoneEvent<T>
+    | StreamErrorEvent<T>;
+
+// Data that is still being generated - every property and array element may be missing or unfinished
+export type DeepPartial<T> = T extends (infer U)[]
+    ? DeepPartial<U>[]
+    : T extends object
+        ? { [K in keyof T]?: DeepPartial<T[K]> }
+        : T;
+
+// Structured stream events - generateStructuredStream yields these, discriminated by `type`
+type StructuredStreamEventBase = {
+    provider: LLMProvider;
+    model: string;
+};
+
+// A provider attempt starts
+export type StructuredStreamStartEvent = StructuredStreamEventBase & {
+    type: 'start';
+    attempt: number; // Index of the provider attempt, starting at 0
+};
+
+// The data parsed so far - open strings are cut off, unfinished numbers are left out
+export type StructuredStreamPartialEvent<T = any> = StructuredStreamEventBase & {
+    type: 'partial';
+    data: DeepPartial<T>;
 };
 
+// An array element was read to its end
+export type StructuredStreamElementEvent = StructuredStreamEventBase & {
+    type: 'element';
+    path: (string | number)[]; // Path of the array in the data, [] for a top-level array
+    index: number;
+    value: any;
+};
+
+// The data failed validation and a repair turn is sent - the partial data starts over
+export type StructuredStreamRepairEvent = StructuredStreamEventBase & {
+    type: 'repair';
+    errors: string[];
+    repairAttempt: number;
+};
+
+// The provider failed and the next one is tried - the partial data starts over
+export type StructuredStreamFallbackEvent = StructuredStreamEventBase & {
+    type: 'fallback';
+    error: LLMError;
+    nextProvider: LLMProvider;
+    nextModel: string;
+};
+
+// Last event of a successful stream, with the parsed and validated data
+export type StructuredStreamDoneEvent<T = any> = StructuredStreamEventBase & {
+    type: 'done';
+    data: T;
+    text: string;
+    usage: LLMUsage;
+    finishReason: LLMFinishReason;
+    estimatedCost?: number;
+};
+
+// Last event of a failed stream
+export type StructuredStreamErrorEvent = StructuredStreamEventBase & {
+    type: 'error';
+    error: LLMError;
+};
+
+export type StructuredStreamEvent<T = any> =
+    | StructuredStreamStartEvent
+    | StructuredStreamPartialEvent<T>
+    | StructuredStreamElementEvent
+    | StructuredStreamRepairEvent
+    | StructuredStreamFallbackEvent
+    | StructuredStreamDoneEvent<T>
+    | StructuredStreamErrorEvent;
+
 // Error types
 export class LLMError extends Error {
     constructor(
         message: string,
         public provider: LLMProvider,
         public code?: string,
-        public statusCode?: number
+        public statusCode?: number,
+        public retryAfterMs?: number // Delay requested by the provider's Retry-After header
     ) {
         super(message);
         this.name = 'LLMError';
     }
 }
 
-// Default configurations
-const DEFAULT_CONFIG = {
-    maxToken: 1024,
-    temperature: 0.7,
-    retry: 1,
-    fallbackOrder: ['google', 'anthropic'] as LLMProvider[]
-};
-
-// Model defaults by use case
-const MODEL_DEFAULTS = {
-    text: {
-        google: 'gemini-2.5-flash',
-        anthropic: 'claude-haiku-4-5',
-        openai: 'gpt-4o-mini',
-        venice: 'venice-uncensored',
-        xai: 'grok-4-fast-non-reasoning'
-    },
-    image: {
-        google: 'gemini-2.5-flash-image-preview',
-        openai: 'gpt-image-1',
-        kling: 'kling-v1-5',
-        venice: 'lustify-sdxl',
-        xai: 'grok-2-image',
-    },
-    structured: {
-        google: 'gemini-2.5-flash',
-        anthropic: 'claude-haiku-4-5',
-        openai: 'gpt-4o-mini',
-        venice: 'venice-uncensored',
-        xai: 'grok-4-fast-non-reasoning'
-    },
-    vision: {
-        google: 'gemini-2.5-flash',
-        anthropic: 'claude-sonnet-4-5',
-        openai: 'gpt-4o',
-        venice: 'venice-uncensored',
-        xai: 'grok-4-fast-non-reasoning'
-    }
-};
-
-// Main exported functions
-
-let anthropic: AnthropicAdapter;
-let google: GoogleAdapter;
-let openai: OpenAIAdapter;
-let kling: KlingAdapter;
-let venice: VeniceAdapter;
-let xai: XAIAdapter;
+// Default client - credentials are read from environment variables
+const defaultClient = createLLMClient();
 
 /**
  * Generate text using LLM with automatic fallback
  * @param request Text generation request configuration
  * @returns Promise with generated text
  */
-export async function generateText(request: TextGenerationRequest): Promise<LLMResponse> {
-
-    const config = {
-        ...DEFAULT_CONFIG,
-        ...request,
-        model: {
-            ...MODEL_DEFAULTS.text,
-            ...request.model
-        }
-    };
-
-    const fallbackOrder = config.fallbackOrder || DEFAULT_CONFIG.fallbackOrder;
-    const errorLevel = config.errorLevel || 'quiet';
-    let lastError: Error | null = null;
-    
-    // Generate tracking ID and start timer
-    const trackId = generateTrackId();
-    const started_at = Date.now();
-    const caller = request.caller || '[warning] no caller';
-    
-    log('info', errorLevel, `Starting generateText with providers: ${fallbackOrder.join(', ')}`);
-    
-    if (fallbackOrder?.includes('anthropic') && !anthropic) {
-        const apiKey = await getApiKey('anthropic');
-        anthropic = new AnthropicAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('google') && !google) {
-        const apiKey = await getApiKey('google');
-        google = new GoogleAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('openai') && !openai) {
-        const apiKey = await getApiKey('openai');
-        openai = new OpenAIAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('venice') && !venice) {
-        const apiKey = await getApiKey('venice');
-        venice = new VeniceAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('xai') && !xai) {
-        const apiKey = await getApiKey('xai');
-        xai = new XAIAdapter(apiKey);
-    }
-
-    for (const provider of fallbackOrder) {
-        const model = config.model[provider];
-        if (!model) continue;
-
-        try {
-            log('info', errorLevel, `Trying provider: ${provider} with model: ${model}`);
-            let adapterResponse: { response: string; usage: { itoken: number; otoken: number; ttoken: number } } | undefined;
-
-            await retryWithBackoff(async () => {
-                switch (provider) {
-                    case 'anthropic':
-                        adapterResponse = await anthropic.generateText( model, config.system, config.messages, config.maxToken, config.temperature );
-                        break;
-                    case 'google':
-                        adapterResponse = await google.generateText( model, config.system, config.messages, config.maxToken, config.temperature );
-                        break;
-                    case 'openai':
-                        adapterResponse = await openai.generateText( model, config.system, config.messages, config.maxToken, config.temperature );
-                        break;
-                    case 'venice':
-                        adapterResponse = await venice.generateText( model, config.system, config.messages, config.maxToken, config.temperature );
-                        break;
-                    case 'xai':
-                        adapterResponse = await xai.generateText( model, config.system, config.messages, config.maxToken, config.temperature );
-                        break;
-                }
-            }, Array.isArray(config.retry) ? config.retry[0] : config.retry || DEFAULT_CONFIG.retry);
-
-            log('info', errorLevel, `Success with provider: ${provider}`);
-            
-            // Log tracking data
-            const finished_at = Date.now();
-            if (adapterResponse) {
-                logTracking({
-                    trackid: trackId,
-                    provider,
-                    itoken: adapterResponse.usage.itoken,
-                    otoken: adapterResponse.usage.otoken,
-                    ttoken: adapterResponse.usage.ttoken,
-                    started_at,
-                    elapsed_seconds: finished_at - started_at,
-                    model,
-                    request_type: 'text',
-                    caller,
-                    retry_count: 0 // TODO: track actual retry count
-                });
-                
-                return {
-                    text: adapterResponse.response,
-                    data: undefined,
-                    provider,
-                    model
-                };
-            } else {
-                throw new Error('No response from adapter');
-            }
-        } catch (error: any) {
-            lastError = error;
-            log('warn', errorLevel, `Failed with ${provider}: ${error.message}`);
-        }
-    }
-
-    log('error', errorLevel, 'All providers failed', lastError);
-    
-    // Log failed tracking data for generateText
-    const finishedAt = Date.now();
-    logTracking({
-        trackid: trackId,
-        provider: fallbackOrder[0] || 'unknown',
-        itoken: 0,
-        otoken: 0,  
-        ttoken: 0,
-        started_at: started_at,
-        elapsed_seconds: finishedAt - started_at,
-        model: 'unknown',
-        request_type: 'text',
-        caller,
-        error: lastError?.message || 'All providers failed',
-        retry_count: 0
-    });
-    
-    throw lastError || new Error('All providers failed');
+export function generateText(request: TextGenerationRequest): Promise<LLMResponse> {
+    return defaultClient.generateText(request);
 }
 
 /**
@@ -313,197 +501,8 @@ export async function generateText(request: TextGenerationRequest): Promise<LLMR
  * @param request Image generation request configuration
  * @returns Promise with image URL
  */
-export async function generateImage(request: ImageGenerationRequest): Promise<LLMResponse> {
-    const config = {
-        ...DEFAULT_CONFIG,
-        ...request,
-        model: {
-            ...MODEL_DEFAULTS.image,
-            ...request.model
-        }
-    };
-
-    const fallbackOrder = config.fallbackOrder || ['google', 'openai', 'kling'];
-    const errorLevel = config.errorLevel || 'quiet';
-    let lastError: Error | null = null;
-    
-    // Generate tracking ID and start timer
-    const trackId = generateTrackId();
-    const startedAt = Date.now();
-    const caller = request.caller || '[warning] no caller';
-
-    log('info', errorLevel, `Starting generateImage with providers: ${fallbackOrder.join(', ')}`);
-
-    // Check if Anthropic is in the model config or fallback order
-    if (config.model.anthropic || fallbackOrder.includes('anthropic')) {
-        throw new Error('Anthropic does not support image generation. Please use Google, OpenAI, or Kling for image generation.');
-    }
-
-    // Prepare adapters if needed
-    if (fallbackOrder?.includes('google') && !google) {
-        const apiKey = await getApiKey('google');
-        google = new GoogleAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('openai') && !openai) {
-        const apiKey = await getApiKey('openai');
-        openai = new OpenAIAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('kling') && !kling) {
-        kling = new KlingAdapter();
-    }
-    if (fallbackOrder?.includes('venice') && !venice) {
-        const apiKey = await getApiKey('venice');
-        venice = new VeniceAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('xai') && !xai) {
-        const apiKey = await getApiKey('xai');
-        xai = new XAIAdapter(apiKey);
-    }
-
-    // Use prompt directly from the request
-    const prompt = config.prompt;
-
-    for (const provider of fallbackOrder) {
-        const model = config.model[provider];
-        if (!model) continue;
-
-        try {
-            log('info', errorLevel, `Trying provider: ${provider} with model: ${model}`);
-            let imageUrl: string = '';
-            let adapterUsage: { itoken: number; otoken: number; ttoken: number } | undefined;
-
-            // Helper function to handle S3 upload for base64 images
-            const handleImageUpload = async (imageUrl: string, providerName: string): Promise<string> => {
-                if (imageUrl.startsWith('data:image')) {
-                    log('info', errorLevel, `Uploading ${providerName} image to S3...`);
-                    const s3Url = await uploadBase64ImageToS3(imageUrl);
-                    if (s3Url) {
-                        log('info', errorLevel, `Image uploaded to: ${s3Url}`);
-                        return s3Url;
-                    } else {
-                        throw new Error('Failed to upload image to S3');
-                    }
-                }
-                return imageUrl;
-            };
-
-            await retryWithBackoff(async () => {
-                switch (provider) {
-                    case 'google':
-                        const googleResult = await google.generateImage({
-                            model,
-                            prompt,
-                            system: config.system,
-                            width: config.width,
-                            height: config.height,
-                            referenceImage: config.referenceImage
-                        });
-                        adapterUsage = googleResult.usage;
-                        imageUrl = await handleImageUpload(googleResult.imageUrl, 'Google');
-                        break;
-                    case 'openai':
-                        const openaiResult = await openai.generateImage({
-                            model,
-                            prompt,
-                            system: config.system,
-                            width: config.width,
-                            height: config.height,
-                            referenceImage: config.referenceImage
-                        });
-                        adapterUsage = openaiResult.usage;
-                        imageUrl = await handleImageUpload(openaiResult.imageUrl, 'OpenAI');
-                        break;
-                    case 'kling':
-                        const klingResult = await kling.generateImage({
-                            model,
-                            prompt,
-                            system: config.system,
-                            width: config.width,
-                            height: config.height,
-                            referenceImage: config.referenceImage
-                        });
-                        adapterUsage = klingResult.usage;
-                        imageUrl = await handleImageUpload(klingResult.imageUrl, 'Kling');
-                        break;
-                    case 'venice':
-                        const veniceResult = await venice.generateImage({
-                            model,
-                            prompt,
-                            system: config.system,
-                            width: config.width,
-                            height: config.height,
-                            referenceImage: config.referenceImage
-                        });
-                        adapterUsage = veniceResult.usage;
-                        imageUrl = await handleImageUpload(veniceResult.imageUrl, 'Venice');
-                        break;
-                    case 'xai':
-                        const xaiResult = await xai.generateImage({
-                            model,
-                            prompt,
-                            system: config.system,
-                            width: config.width,
-                            height: config.height,
-                            referenceImage: config.referenceImage
-                        });
-                        adapterUsage = xaiResult.usage;
-                        imageUrl = await handleImageUpload(xaiResult.imageUrl, 'xAI');
-                        break;
-                    default:
-                        throw new Error(`Image generation not supported for ${provider}`);
-                }
-            }, Array.isArray(config.retry) ? config.retry[0] : config.retry || DEFAULT_CONFIG.retry);
-
-            log('info', errorLevel, `Success with provider: ${provider}`);
-            
-            // Log tracking data for image generation
-            const finishedAt = Date.now();
-            logTracking({
-                trackid: trackId,
-                provider,
-                itoken: adapterUsage?.itoken || 0,
-                otoken: adapterUsage?.otoken || 0,
-                ttoken: adapterUsage?.ttoken || 0,
-                started_at: startedAt,
-                elapsed_seconds: finishedAt - startedAt,
-                model,
-                request_type: 'image',
-                caller,
-                retry_count: 0
-            });
-            
-            return {
-                imageUrl,
-                data: undefined,
-                provider,
-                model
-            };
-        } catch (error: any) {
-            lastError = error;
-            log('warn', errorLevel, `Failed with ${provider}: ${error.message}`);
-        }
-    }
-
-    log('error', errorLevel, 'All providers failed', lastError);
-    
-    // Log failed tracking data for generateImage
-    const finishedAt = Date.now();
-    logTracking({
-        trackid: trackId,
-        provider: fallbackOrder[0] || 'unknown',
-        itoken: 0,
-        otoken: 0,
-        ttoken: 0,
-        started_at: startedAt,
-        elapsed_seconds: finishedAt - startedAt,
-        model: 'unknown',
-        request_type: 'image',
-        caller,
-        error: lastError?.message || 'All providers failed',
-        retry_count: 0
-    });
-    
-    throw lastError || new Error('All providers failed');
+export function generateImage(request: ImageGenerationRequest): Promise<LLMResponse> {
+    return defaultClient.generateImage(request);
 }
 
 /**
@@ -511,135 +510,8 @@ export async function generateImage(request: ImageGenerationRequest): Promise<LL
  * @param request Structured data generation request configuration
  * @returns Promise with parsed structured data
  */
-export async function generateStructuredData<T = any>(request: StructuredDataRequest): Promise<LLMResponse<T>> {
-    
-    const config = {
-        ...DEFAULT_CONFIG,
-        ...request,
-        model: {
-            ...MODEL_DEFAULTS.structured,
-            ...request.model
-        }
-    };
-
-    const fallbackOrder = config.fallbackOrder || DEFAULT_CONFIG.fallbackOrder;
-    const errorLevel = config.errorLevel || 'quiet';
-    let lastError: Error | null = null;
-    
-    // Generate tracking ID and start timer
-    const trackId = generateTrackId();
-    const startedAt = Date.now();
-    const caller = request.caller || '[warning] no caller';
-    
-    // Accumulate tokens from all attempts (including JSON parsing failures)
-    let totalTokenUsage = { itoken: 0, otoken: 0, ttoken: 0 };
-    let retryCount = 0;
-
-    log('info', errorLevel, `Starting generateStructuredData with providers: ${fallbackOrder.join(', ')}`);
-
-    // Prepare adapters if needed
-    if (fallbackOrder?.includes('anthropic') && !anthropic) {
-        const apiKey = await getApiKey('anthropic');
-        anthropic = new AnthropicAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('google') && !google) {
-        const apiKey = await getApiKey('google');
-        google = new GoogleAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('openai') && !openai) {
-        const apiKey = await getApiKey('openai');
-        openai = new OpenAIAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('venice') && !venice) {
-        const apiKey = await getApiKey('venice');
-        venice = new VeniceAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('xai') && !xai) {
-        const apiKey = await getApiKey('xai');
-        xai = new XAIAdapter(apiKey);
-    }
-
-    // Add JSON instruction to the last message
-    const messages = [...config.messages];
-    
-    for (const provider of fallbackOrder) {
-        const model = config.model[provider];
-        if (!model) continue;
-
-        try {
-            log('info', errorLevel, `Trying provider: ${provider} with model: ${model}`);
-            let adapterResponse: { response: string; usage: { itoken: number; otoken: number; ttoken: number } } | undefined;
-            let data: T | undefined;
-            retryCount++;
-
-            await retryWithBackoff(async () => {
-                switch (provider) {
-                    case 'anthropic':
-                        adapterResponse = await anthropic.generateText( model, config.system, messages, config.maxToken, config.temperature );
-                        break;
-                    case 'google':
-                        adapterResponse = await google.generateText( model, config.system, messages, config.maxToken, config.temperature );
-                        break;
-                    case 'openai':
-                        adapterResponse = await openai.generateText( model, config.system, messages, config.maxToken, config.temperature );
-                        break;
-                    case 'venice':
-                        adapterResponse = await venice.generateText( model, config.system, messages, config.maxToken, config.temperature );
-                        break;
-                    case 'xai':
-                        adapterResponse = await xai.generateText( model, config.system, messages, config.maxToken, config.temperature );
-                        break;
-                }
-
-                if (adapterResponse) {
-                    // Log this individual attempt immediately (before JSON parsing)
-                    const attemptFinishedAt = Date.now();
-                    logTracking({
-                        trackid: trackId,
-                        provider,
-                        itoken: adapterResponse.usage.itoken,
-                        otoken: adapterResponse.usage.otoken,
-                        ttoken: adapterResponse.usage.ttoken,
-                        started_at: startedAt,
-                        elapsed_seconds: attemptFinishedAt - startedAt,
-                        model,
-                        request_type: 'structured',
-                        caller,
-                        retry_count: retryCount - 1,
-                        error: undefined // LLM succeeded, but JSON parsing might fail
-                    });
-                    
-                    // Accumulate for potential final summary log
-                    totalTokenUsage.itoken += adapterResponse.usage.itoken;
-                    totalTokenUsage.otoken += adapterResponse.usage.otoken;
-                    totalTokenUsage.ttoken += adapterResponse.usage.ttoken;
-                    
-                    // Parse the JSON response (this can fail and cause retry)
-                    log('info', errorLevel, 'Parsing JSON response...');
-                    data = parseLLMJson<T>(adapterResponse.response);
-                }
-            }, Array.isArray(config.retry) ? config.retry[0] : config.retry || DEFAULT_CONFIG.retry);
-
-            log('info', errorLevel, `Success with provider: ${provider}`);
-            
-            if (adapterResponse && data) {
-                return {
-                    text: adapterResponse.response,
-                    data: data,
-                    provider,
-                    model
-                };
-            } else {
-                throw new Error('No response from adapter or failed to parse data');
-            }
-        } catch (error: any) {
-            lastError = error;
-            log('warn', errorLevel, `Failed with ${provider}: ${error.message}`);
-        }
-    }
-
-    log('error', errorLevel, 'All providers failed', lastError);
-    throw lastError || new Error('All providers failed');
+export function generateStructuredData<T = any>(request: StructuredDataRequest): Promise<LLMResponse<T>> {
+    return defaultClient.generateStructuredData<T>(request);
 }
 
 /**
@@ -647,198 +519,33 @@ export async function generateStructuredData<T = any>(request: StructuredDataReq
  * @param request Stream generation request configuration
  * @returns AsyncGenerator yielding text chunks
  */
-export async function* generateStream(request: StreamGenerationRequest): AsyncGenerator<StreamLLMResponse> {
-    const config = {
-        ...DEFAULT_CONFIG,
-        ...request,
-        model: {
-            ...MODEL_DEFAULTS.text,
-            ...request.model
-        }
-    };
+export function generateStream(request: StreamGenerationRequest): AsyncGenerator<StreamLLMResponse> {
+    return defaultClient.generateStream(request);
+}
 
-    const fallbackOrder = config.fallbackOrder || DEFAULT_CONFIG.fallbackOrder;
-    const errorLevel = config.errorLevel || 'quiet';
-    let lastError: Error | null = null;
-    
-    // Generate tracking ID and start timer
-    const trackId = generateTrackId();
-    const startedAt = Date.now();
-    const caller = request.caller || '[warning] no caller';
-    
-    log('info', errorLevel, `Starting generateStream with providers: ${fallbackOrder.join(', ')}`);
-    
-    // Prepare adapters if needed
-    if (fallbackOrder?.includes('anthropic') && !anthropic) {
-        const apiKey = await getApiKey('anthropic');
-        anthropic = new AnthropicAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('google') && !google) {
-        const apiKey = await getApiKey('google');
-        google = new GoogleAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('openai') && !openai) {
-        const apiKey = await getApiKey('openai');
-        openai = new OpenAIAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('venice') && !venice) {
-        const apiKey = await getApiKey('venice');
-        venice = new VeniceAdapter(apiKey);
-    }
-    if (fallbackOrder?.includes('xai') && !xai) {
-        const apiKey = await getApiKey('xai');
-        xai = new XAIAdapter(apiKey);
-    }
+/**
+ * Count the prompt tokens of a request with the provider's count endpoint, or estimate them locally
+ * @param request Provider, model, system prompt and messages
+ * @returns Token count and the model's context window
+ */
+export function countTokens(request: TokenCountRequest): Promise<TokenCount> {
+    return defaultClient.countTokens(request);
+}
 
-    // Filter out providers that don't support streaming
-    const streamingProviders = fallbackOrder.filter(p => p !== 'kling');
-    
-    for (const provider of streamingProviders) {
-        const model = config.model[provider];
-        if (!model) continue;
-
-        try {
-            log('info', errorLevel, `Trying streaming with provider: ${provider} using model: ${model}`);
-            
-            let fullText = '';
-            let streamUsage: { itoken: number; otoken: number; ttoken: number } | undefined;
-            
-            // Create the appropriate stream based on provider
-            const streamGenerator = (async function* () {
-                try {
-                    switch (provider) {
-                        case 'anthropic':
-                            yield* anthropic.generateStream(
-                                model, 
-                                config.system, 
-                                config.messages, 
-                                config.maxToken, 
-                                config.temperature
-                            );
-                            break;
-                        case 'google':
-                            yield* google.generateStream(
-                                model, 
-                                config.system, 
-                                config.messages, 
-                                config.maxToken, 
-                                config.temperature
-                            );
-                            break;
-                        case 'openai':
-                            yield* openai.generateStream(
-                                model,
-                                config.system,
-                                config.messages,
-                                config.maxToken,
-                                config.temperature
-                            );
-                            break;
-                        case 'venice':
-                            yield* venice.generateStream(
-                                model,
-                                config.system,
-                                config.messages,
-                                config.maxToken,
-                                config.temperature
-                            );
-                            break;
-                        case 'xai':
-                            yield* xai.generateStream(
-                                model,
-                                config.system,
-                                config.messages,
-                                config.maxToken,
-                                config.temperature
-                            );
-                            break;
-                        default:
-                            throw new Error(`Streaming not supported for ${provider}`);
-                    }
-                } catch (error) {
-                    throw error;
-                }
-            })();
-
-            // Yield chunks as they come
-            try {
-                for await (const chunk of streamGenerator) {
-                    if (chunk.type === 'text' && chunk.text) {
-                        fullText += chunk.text;
-                        yield {
-                            text: chunk.text,
-                            imageUrl: undefined,
-                            data: undefined,
-                            provider,
-                            model,
-                        };
-                    } else if (chunk.type === 'usage' && chunk.usage) {
-                        streamUsage = chunk.usage;
-                    }
-                }
-                
-                log('info', errorLevel, `Stream completed successfully with provider: ${provider}`);
-                
-                // Log tracking data for successful streaming
-                const finishedAt = Date.now();
-                logTracking({
-                    trackid: trackId,
-                    provider,
-                    itoken: streamUsage?.itoken || 0,
-                    otoken: streamUsage?.otoken || 0,
-                    ttoken: streamUsage?.ttoken || 0,
-                    started_at: startedAt,
-                    elapsed_seconds: finishedAt - startedAt,
-                    model,
-                    request_type: 'stream',
-                    caller,
-                    retry_count: 0
-                });
-                
-                return; // Success - exit the function
-                
-            } catch (streamError) {
-                // If error occurred during streaming, try next provider
-                lastError = streamError instanceof Error ? streamError : new Error(String(streamError));
-                log('warn', errorLevel, `Stream failed with ${provider}: ${lastError.message}`);
-                
-                // Yield error response for this provider
-                yield {
-                    text: fullText,
-                    imageUrl: undefined,
-                    data: undefined,
-                    provider,
-                    model,
-                    streamStatus: 'error' as const,
-                    error: new LLMError(
-                        lastError.message,
-                        provider,
-                        (streamError as LLMError)?.code,
-                        (streamError as LLMError)?.statusCode
-                    )
-                };
-                continue; // Try next provider
-            }
-            
-        } catch (error) {
-            lastError = error instanceof Error ? error : new Error(String(error));
-            log('warn', errorLevel, `Failed to initialize stream with ${provider}: ${lastError.message}`);
-        }
-    }
+/**
+ * Create a conversation that keeps its system prompt and history between turns
+ * @param options System prompt or saved state, turn defaults and summarization of older turns
+ * @returns Conversation with send, stream and toJSON
+ */
+export function createConversation(options: ConversationOptions): Conversation {
+    return defaultClient.createConversation(options);
+}
 
-    // All providers failed
-    log('error', errorLevel, 'All streaming providers failed', lastError);
-    yield {
-        text: '',
-        imageUrl: undefined,
-        data: undefined,
-        provider: streamingProviders[0] || 'google',
-        model: config.model[streamingProviders[0]] || 'unknown',
-        streamStatus: 'error' as const,
-        error: new LLMError(
-            lastError?.message || 'All streaming providers failed',
-            streamingProviders[0] || 'google',
-            'STREAM_FAILED'
-        )
-    };
+/**
+ * Generate structured data as a stream of partial data with automatic fallback
+ * @param request Structured data generation request configuration
+ * @returns AsyncGenerator yielding partial data, completed array elements and the final data
+ */
+export function generateStructuredStream<T = any>(request: StructuredDataRequest): AsyncGenerator<StructuredStreamEvent<T>> {
+    return defaultClient.generateStructuredStream<T>(request);
 }
@@ -1,25 +1,84 @@
+import { DocumentFallback, JSONSchema, LLMFinishReason, LLMMessage, LLMReasoning, LLMSamplingOptions, LLMThinking, LLMTool, LLMToolCall, LLMToolChoice } from './index';
+
 export interface ImageGenerationOptions {
     model: string;
     prompt: string;
     system?: string;
     width?: number;
     height?: number;
-    referenceImage?: string | string[];
+    referenceImage?: string | string[]; // base64 data URLs
+    signal?: AbortSignal;
 }
 
 export type AdapterUsage = {
-    itoken: number;
-    otoken: number;
-    ttoken: number;
+    itoken: number; // Input tokens, including cached ones
+    otoken: number; // Output tokens, excluding thinking tokens
+    ttoken: number; // Thinking tokens
+    ctoken?: number; // Cached input tokens
+};
+
+// Optional per-call options shared by the text and stream adapter methods
+export type AdapterTextOptions = {
+    tools?: LLMTool[];
+    toolChoice?: LLMToolChoice;
+    responseSchema?: JSONSchema; // Ask for JSON matching this schema using the provider's native structured output
+    responseSchemaName?: string;
+    sampling?: LLMSamplingOptions; // Only the parameters in the registration's samplingParameters, when it lists them
+    reasoning?: LLMReasoning; // A thinking budget is added to maxTokens, so maxTokens still limits the answer
+    documentFallback?: DocumentFallback; // Read by the document input wrapper, adapters get documents they accept
+    signal?: AbortSignal; // Aborts the upstream request
 };
 
 export type AdapterResponse = {
     response: string;
     usage: AdapterUsage;
+    toolCalls?: LLMToolCall[];
+    finishReason?: LLMFinishReason;
+    thinking?: LLMThinking[];
 };
 
 export type StreamChunk = {
-    type: 'text' | 'usage';
+    type: 'text' | 'usage' | 'tool_call' | 'thinking' | 'finish';
     text?: string;
     usage?: AdapterUsage;
-};
\ No newline at end of file
+    toolCall?: LLMToolCall;
+    thinking?: LLMThinking; // Text delta, or the signature or redacted data that ends a block
+    finishReason?: LLMFinishReason; // 'finish' chunks, yielded last
+};
+
+export type AdapterImageResponse = {
+    imageUrl: string;
+    usage: AdapterUsage;
+};
+
+// Contract for provider adapters - implement the capabilities the provider supports
+export interface ProviderAdapter {
+    generateText?(
+        model: string,
+        system: string,
+        messages: LLMMessage[],
+        maxTokens?: number,
+        temperature?: number,
+        options?: AdapterTextOptions
+    ): Promise<AdapterResponse>;
+
+    generateStream?(
+        model: string,
+        system: string,
+        messages: LLMMessage[],
+        maxTokens?: number,
+        temperature?: number,
+        options?: AdapterTextOptions
+    ): AsyncGenerator<StreamChunk>;
+
+    generateImage?(options: ImageGenerationOptions): Promise<AdapterImageResponse>;
+
+    // Prompt tokens of a request, counted by the provider
+    countTokens?(model: string, system: string, messages: LLMMessage[], signal?: AbortSignal): Promise<number>;
+}
+
+// API key, or named fields for providers that need several secrets
+export type ProviderCredential = string | { [field: string]: string };
+
+// Creates an adapter from the provider's credential (undefined when none is registered)
+export type ProviderAdapterFactory = (credential: ProviderCredential | undefined) => ProviderAdapter;
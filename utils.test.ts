@@ -0,0 +1,217 @@
+import { LLMError } from './index';
+import { isRetryableError, parsePartialJson, parseRetryAfter, parseRetryInfo, removeNullOptionals, retryDelay, validateJsonSchema } from './utils';
+
+describe('parsePartialJson', () => {
+    it('returns no value before the JSON starts', () => {
+        expect(parsePartialJson('Here is the data: ')).toEqual({ value: undefined, complete: false, elements: [] });
+    });
+
+    it('parses complete JSON after a code fence', () => {
+        const result = parsePartialJson('```json\n{"name": "Ada", "tags": ["a", "b"]}\n```');
+        expect(result.value).toEqual({ name: 'Ada', tags: ['a', 'b'] });
+        expect(result.complete).toBe(true);
+    });
+
+    it('closes open strings, objects and arrays', () => {
+        const result = parsePartialJson('{"name": "Ad');
+        expect(result.value).toEqual({ name: 'Ad' });
+        expect(result.complete).toBe(false);
+        expect(parsePartialJson('{"items": [{"id": 1}, {"id"').value).toEqual({ items: [{ id: 1 }, {}] });
+    });
+
+    it('leaves out numbers that may still grow and unfinished literals', () => {
+        expect(parsePartialJson('{"count": 12').value).toEqual({});
+        expect(parsePartialJson('{"count": 12,').value).toEqual({ count: 12 });
+        expect(parsePartialJson('{"done": tr').value).toEqual({});
+    });
+
+    it('leaves out a cut-off escape sequence', () => {
+        expect(parsePartialJson('{"text": "a\\u00').value).toEqual({ text: 'a' });
+        expect(parsePartialJson('{"text": "line\\nnext"}').value).toEqual({ text: 'line\nnext' });
+    });
+
+    it('reports array elements in the order they close', () => {
+        const result = parsePartialJson('{"people": [{"name": "Ada"}, {"name": "Alan"}, {"name": "Gr');
+        expect(result.elements).toEqual([
+            { path: ['people'], index: 0, value: { name: 'Ada' } },
+            { path: ['people'], index: 1, value: { name: 'Alan' } }
+        ]);
+    });
+
+    it('reports elements of a top-level array with an empty path', () => {
+        expect(parsePartialJson('[1, 2, 3').elements).toEqual([
+            { path: [], index: 0, value: 1 },
+            { path: [], index: 1, value: 2 }
+        ]);
+    });
+});
+
+describe('validateJsonSchema', () => {
+    const schema = {
+        type: 'object',
+        properties: {
+            name: { type: 'string', minLength: 1 },
+            age: { type: 'integer', minimum: 0 },
+            role: { enum: ['admin', 'user'] },
+            tags: { type: 'array', items: { type: 'string' }, maxItems: 2 }
+        },
+        required: ['name'],
+        additionalProperties: false
+    };
+
+    it('accepts a valid value', () => {
+        expect(validateJsonSchema(schema, { name: 'Ada', age: 36, role: 'admin', tags: ['x'] })).toEqual([]);
+    });
+
+    it('reports missing, extra and mistyped properties with their paths', () => {
+        expect(validateJsonSchema(schema, { age: 1.5, nickname: 'A' })).toEqual([
+            '$.name: is required',
+            '$.age: expected integer, got number',
+            '$.nickname: is not allowed'
+        ]);
+    });
+
+    it('reports string, number, enum and array constraints', () => {
+        expect(validateJsonSchema(schema, { name: '', age: -1, role: 'owner', tags: ['a', 'b', 3] })).toEqual([
+            '$.name: must have at least 1 characters',
+            '$.age: must be >= 0',
+            '$.role: must be one of "admin", "user"',
+            '$.tags: must have at most 2 items',
+            '$.tags[2]: expected string, got integer'
+        ]);
+    });
+
+    it('accepts integers for number and checks anyOf alternatives', () => {
+        expect(validateJsonSchema({ type: 'number' }, 3)).toEqual([]);
+        const nullable = { anyOf: [{ type: 'string' }, { type: 'null' }] };
+        expect(validateJsonSchema(nullable, null)).toEqual([]);
+        expect(validateJsonSchema(nullable, 1)).toEqual(['$: does not match any allowed schema']);
+    });
+});
+
+describe('removeNullOptionals', () => {
+    const schema = {
+        type: 'object',
+        properties: {
+            title: { type: 'string' },
+            subtitle: { type: 'string' },
+            rating: { type: ['number', 'null'] },
+            panels: { type: 'array', items: { $ref: '#/$defs/panel' } }
+        },
+        required: ['title', 'panels'],
+        $defs: {
+            panel: { type: 'object', properties: { caption: { type: 'string' }, speaker: { enum: ['hero', 'villain'] } } }
+        }
+    };
+
+    it('removes nulls of optional properties that do not allow null', () => {
+        const data = { title: 'Night Shift', subtitle: null, rating: null, panels: [{ caption: null, speaker: null }, { caption: 'Rain' }] };
+
+        expect(removeNullOptionals(data, schema)).toEqual({ title: 'Night Shift', rating: null, panels: [{}, { caption: 'Rain' }] });
+    });
+
+    it('keeps nulls of required properties and values without a schema', () => {
+        expect(removeNullOptionals({ title: null, panels: [] }, schema)).toEqual({ title: null, panels: [] });
+        expect(removeNullOptionals({ subtitle: null }, undefined)).toEqual({ subtitle: null });
+    });
+
+    it('cleans the anyOf alternative the value matches', () => {
+        const alternatives = { anyOf: [{ type: 'string' }, { type: 'object', properties: { note: { type: 'string' } }, additionalProperties: false }] };
+
+        expect(removeNullOptionals({ note: null }, alternatives)).toEqual({});
+    });
+});
+
+describe('isRetryableError', () => {
+    it('retries rate limits, server errors, timeouts and network errors', () => {
+        expect(isRetryableError(new LLMError('Too many requests', 'openai', 'rate_limit_exceeded', 429))).toBe(true);
+        expect(isRetryableError(new LLMError('Overloaded', 'anthropic', undefined, 529))).toBe(true);
+        expect(isRetryableError(new LLMError('Timed out', 'google', 'TIMEOUT'))).toBe(true);
+        expect(isRetryableError(new LLMError('Connection reset', 'google', 'ECONNRESET'))).toBe(true);
+        expect(isRetryableError(new Error('Failed to parse LLM JSON'))).toBe(true);
+    });
+
+    it('does not retry errors caused by the request', () => {
+        expect(isRetryableError(new LLMError('Bad request', 'openai', undefined, 400))).toBe(false);
+        expect(isRetryableError(new LLMError('Unauthorized', 'openai', undefined, 401))).toBe(false);
+        expect(isRetryableError(new LLMError('Too long', 'openai', 'context_length_exceeded', 500))).toBe(false);
+        expect(isRetryableError(new LLMError('Aborted', 'openai', 'ABORTED'))).toBe(false);
+    });
+});
+
+describe('parseRetryAfter', () => {
+    it('reads retry-after-ms before retry-after', () => {
+        expect(parseRetryAfter({ 'retry-after-ms': '250', 'retry-after': '3' })).toBe(250);
+    });
+
+    it('reads seconds and HTTP dates', () => {
+        expect(parseRetryAfter({ 'retry-after': '3' })).toBe(3000);
+        const date = new Date(Date.now() + 10000).toUTCString();
+        const delay = parseRetryAfter({ 'retry-after': date })!;
+        expect(delay).toBeGreaterThan(8000);
+        expect(delay).toBeLessThanOrEqual(10000);
+        expect(parseRetryAfter({ 'retry-after': new Date(0).toUTCString() })).toBe(0);
+    });
+
+    it('reads Headers objects and ignores missing or invalid values', () => {
+        expect(parseRetryAfter(new Headers({ 'retry-after': '2' }))).toBe(2000);
+        expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+        expect(parseRetryAfter({})).toBeUndefined();
+        expect(parseRetryAfter(undefined)).toBeUndefined();
+    });
+});
+
+describe('parseRetryInfo', () => {
+    const retryInfo = (retryDelay: string) => ({
+        error: {
+            code: 429,
+            status: 'RESOURCE_EXHAUSTED',
+            details: [
+                { '@type': 'type.googleapis.com/google.rpc.QuotaFailure' },
+                { '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay }
+            ]
+        }
+    });
+
+    it('reads the retry delay of a Gemini error body', () => {
+        expect(parseRetryInfo(JSON.stringify(retryInfo('34s')))).toBe(34000);
+        expect(parseRetryInfo(JSON.stringify([retryInfo('1.5s')]))).toBe(1500);
+    });
+
+    it('ignores bodies without a retry delay', () => {
+        expect(parseRetryInfo(JSON.stringify({ error: { code: 500, details: [] } }))).toBeUndefined();
+        expect(parseRetryInfo('Internal error')).toBeUndefined();
+        expect(parseRetryInfo(undefined)).toBeUndefined();
+    });
+});
+
+describe('retryDelay', () => {
+    const rateLimit = (retryAfterMs?: number) => new LLMError('Too many requests', 'openai', 'rate_limit_exceeded', 429, retryAfterMs);
+    const policy = { initialDelayMs: 100, maxDelayMs: 1000, jitter: false };
+
+    it('doubles the backoff up to maxDelayMs', () => {
+        expect([0, 1, 2, 5].map(attempt => retryDelay(rateLimit(), attempt, 10, policy))).toEqual([100, 200, 400, 1000]);
+    });
+
+    it('keeps jittered delays between half and all of the backoff', () => {
+        const delay = retryDelay(rateLimit(), 1, 2, { initialDelayMs: 100 })!;
+        expect(delay).toBeGreaterThanOrEqual(100);
+        expect(delay).toBeLessThanOrEqual(200);
+    });
+
+    it('waits at least the Retry-After delay', () => {
+        expect(retryDelay(rateLimit(5000), 0, 1, policy)).toBe(5000);
+    });
+
+    it('gives up when retries are used up, the error is not retryable or Retry-After is too long', () => {
+        expect(retryDelay(rateLimit(), 1, 1, policy)).toBeUndefined();
+        expect(retryDelay(new LLMError('Bad request', 'openai', undefined, 400), 0, 1, policy)).toBeUndefined();
+        expect(retryDelay(rateLimit(120000), 0, 1, policy)).toBeUndefined();
+        expect(retryDelay(rateLimit(120000), 0, 1, { ...policy, maxRetryAfterMs: 300000 })).toBe(120000);
+    });
+
+    it('uses the policy classification and stops once the signal aborted', () => {
+        expect(retryDelay(new LLMError('Bad request', 'openai', undefined, 400), 0, 1, { ...policy, isRetryable: () => true })).toBe(100);
+        expect(retryDelay(rateLimit(), 0, 1, policy, AbortSignal.abort())).toBeUndefined();
+    });
+});
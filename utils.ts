@@ -1,4 +1,4 @@
-import { LLMProvider, LLMError } from './index';
+import { LLMError, LLMProvider, LLMMessage, LLMReasoning, LLMThinking, LLMTool, LLMToolCall, LLMRetryPolicy, JSONSchema, StructuredDataValidator } from './index';
 
 const randomString = (length: number) =>
     Array(length).fill(0).map(() => `abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789`.charAt(Math.floor(Math.random() * 62))).join('');
@@ -11,6 +11,10 @@ export function generateTrackId(): string {
     });
 }
 
+export function generateToolCallId(): string {
+    return `call_${randomString(24)}`;
+}
+
 export function log(level: 'info' | 'warn' | 'error', errorLevel: 'quiet' | 'info' | 'warn' | 'error' = 'quiet', message: string, ...args: any[]) {
     const levels = { quiet: 0, info: 1, warn: 2, error: 3 };
     const currentLevel = levels[errorLevel];
@@ -31,86 +35,238 @@ export function log(level: 'info' | 'warn' | 'error', errorLevel: 'quiet' | 'inf
     }
 }
 
-export async function logTracking(tracking: any) {
-    const logData = {
-        timestamp: new Date().toISOString(),
-        level: 'INFO',
-        logger: 'LLM_TRACKING',
-        ...tracking
-    };
+// Sleep that ends early when the signal aborts
+export async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (signal?.aborted) {
+            return resolve();
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
 
-    // Log to console
-    console.log(JSON.stringify(logData));
+// Error codes that fail the same way however often they are retried
+const NON_RETRYABLE_CODES = [
+    'ABORTED',
+    'NOT_SUPPORTED',
+    'UNKNOWN_PROVIDER',
+    'MISSING_API_KEY',
+    'MISSING_CREDENTIALS',
+    'INIT_FAILED',
+    'VALIDATION_FAILED',
+    'CASSETTE_MISS',
+    'CIRCUIT_OPEN',
+    'INVALID_IMAGE',
+    'UNSUPPORTED_IMAGE',
+    'INVALID_DOCUMENT',
+    'UNSUPPORTED_DOCUMENT',
+    'invalid_request_error',
+    'invalid_api_key',
+    'insufficient_quota',
+    'context_length_exceeded',
+    'content_filter'
+];
+
+// Whether an error is worth retrying with the same provider - rate limits, server errors, timeouts and network errors
+export function isRetryableError(error: any): boolean {
+    if (!(error instanceof LLMError)) {
+        return true; // e.g. unparseable JSON, another attempt may succeed
+    }
+    if (error.code && NON_RETRYABLE_CODES.includes(error.code)) {
+        return false;
+    }
+    if (error.code === 'TIMEOUT') {
+        return true;
+    }
+    const status = error.statusCode;
+    if (!status) {
+        return true; // No HTTP response - network error
+    }
+    return status === 408 || status === 409 || status === 429 || status >= 500;
 }
 
-export async function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+// Delay requested by the Retry-After (or retry-after-ms) response header, in milliseconds
+export function parseRetryAfter(headers: any): number | undefined {
+    if (!headers) {
+        return undefined;
+    }
+    const header = (name: string): string | undefined =>
+        (typeof headers.get === 'function' ? headers.get(name) : headers[name]) ?? undefined;
+
+    const retryAfterMs = Number(header('retry-after-ms'));
+    if (header('retry-after-ms') && retryAfterMs >= 0) {
+        return retryAfterMs;
+    }
+
+    const retryAfter = header('retry-after');
+    if (!retryAfter) {
+        return undefined;
+    }
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Delay requested by a google.rpc.RetryInfo detail in a JSON error body, like Gemini's 429 responses, in milliseconds
+export function parseRetryInfo(body: string | undefined): number | undefined {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(body || '');
+    } catch {
+        return undefined;
+    }
+    // Vertex AI can wrap the error in an array
+    const details = (Array.isArray(parsed) ? parsed[0] : parsed)?.error?.details;
+    const retryInfo = Array.isArray(details)
+        ? details.find((detail: any) => detail?.['@type']?.endsWith('google.rpc.RetryInfo'))
+        : undefined;
+    // A protobuf Duration such as "34s" or "1.5s"
+    const match = /^(\d+(?:\.\d+)?)s$/.exec(retryInfo?.retryDelay || '');
+    return match ? Math.round(Number(match[1]) * 1000) : undefined;
 }
 
+// Call fn until it succeeds - non-retryable errors and Retry-After waits above the policy's limit are thrown right away
 export async function retryWithBackoff<T>(
-    fn: () => Promise<T>,
+    fn: (attempt: number) => Promise<T>,
     retries: number,
-    initialDelay: number = 1000
+    policy: LLMRetryPolicy = {},
+    signal?: AbortSignal
 ): Promise<T> {
-    let lastError: any;
-    
-    for (let i = 0; i <= retries; i++) {
+    for (let i = 0; ; i++) {
         try {
-            return await fn();
+            return await fn(i);
         } catch (error) {
-            lastError = error;
-            if (i < retries) {
-                const delay = initialDelay * Math.pow(2, i);
-                await sleep(delay);
+            const delay = retryDelay(error, i, retries, policy, signal);
+            if (delay === undefined) {
+                throw error;
             }
+            await sleep(delay, signal);
         }
     }
-    
-    throw lastError;
 }
 
-// Cache for API keys
-const apiKeyCache: { [key: string]: string } = {};
+// Delay before retrying failed attempt `attempt` (0-based), undefined when it is not retried
+export function retryDelay(error: any, attempt: number, retries: number, policy: LLMRetryPolicy = {}, signal?: AbortSignal): number | undefined {
+    const {
+        initialDelayMs = 1000,
+        maxDelayMs = 30000,
+        maxRetryAfterMs = 60000,
+        jitter = true,
+        isRetryable = isRetryableError
+    } = policy;
+    if (signal?.aborted || attempt >= retries || !isRetryable(error)) {
+        return undefined;
+    }
 
-export async function getApiKey(provider: LLMProvider): Promise<string> {
-    // Kling is handled differently (uses its own adapter)
-    if (provider === 'kling') {
-        return 'HANDLED_BY_ADAPTER';
+    const retryAfterMs = error instanceof LLMError ? error.retryAfterMs : undefined;
+    if (retryAfterMs !== undefined && retryAfterMs > maxRetryAfterMs) {
+        return undefined;
     }
 
-    const envVarNames = {
-        anthropic: 'ANTHROPIC_API_KEY',
-        google: 'GOOGLE_AI_API_KEY',
-        openai: 'OPENAI_API_KEY',
-        venice: 'VENICE_API_KEY',
-        xai: 'XAI_API_KEY'
-    };
+    const backoff = Math.min(initialDelayMs * Math.pow(2, attempt), maxDelayMs);
+    const delay = jitter ? backoff / 2 + Math.random() * backoff / 2 : backoff;
+    return Math.max(delay, retryAfterMs || 0);
+}
+
+export type TimeoutSignal = {
+    signal: AbortSignal;
+    abort: () => void;
+    dispose: () => void; // Stops the timer and detaches from the parent signal
+};
 
-    const envVarName = envVarNames[provider as keyof typeof envVarNames];
-    if (!envVarName) {
-        throw new LLMError(`Unknown provider: ${provider}`, provider, 'UNKNOWN_PROVIDER');
+// Signal that aborts with the parent signal or after timeoutMs, whichever comes first
+export function createTimeoutSignal(parent?: AbortSignal, timeoutMs?: number): TimeoutSignal {
+    const controller = new AbortController();
+
+    const onAbort = () => controller.abort(parent?.reason);
+    if (parent?.aborted) {
+        controller.abort(parent.reason);
+    } else {
+        parent?.addEventListener('abort', onAbort, { once: true });
     }
 
-    // Check cache first
-    if (apiKeyCache[envVarName]) {
-        return apiKeyCache[envVarName];
+    let timer: NodeJS.Timeout | undefined;
+    if (timeoutMs && timeoutMs > 0) {
+        timer = setTimeout(() => {
+            const reason = new Error(`Timed out after ${timeoutMs}ms`);
+            reason.name = 'TimeoutError';
+            controller.abort(reason);
+        }, timeoutMs);
+        // A pending timeout alone does not keep the process alive
+        timer.unref();
     }
 
-    // Get from environment variable (optional)
-    const apiKey = process.env[envVarName];
+    return {
+        signal: controller.signal,
+        abort: () => controller.abort(),
+        dispose: () => {
+            clearTimeout(timer);
+            parent?.removeEventListener('abort', onAbort);
+        }
+    };
+}
 
-    if (!apiKey) {
-        throw new LLMError(
-            `API key not found for ${provider}. Please set ${envVarName} environment variable.`,
-            provider,
-            'MISSING_API_KEY'
-        );
+// Error describing why a signal aborted - TIMEOUT for timeouts, ABORTED otherwise
+export function abortError(signal: AbortSignal, provider: LLMProvider): LLMError {
+    const reason = signal.reason;
+    if (reason?.name === 'TimeoutError') {
+        return new LLMError(reason.message, provider, 'TIMEOUT');
     }
+    return new LLMError(reason?.message || 'Request aborted', provider, 'ABORTED');
+}
 
-    // Cache the key
-    apiKeyCache[envVarName] = apiKey;
+// Reject as soon as the signal aborts, even if the adapter ignores the signal
+export function withAbort<T>(promise: Promise<T>, signal: AbortSignal, provider: LLMProvider): Promise<T> {
+    if (signal.aborted) {
+        promise.catch(() => {});
+        return Promise.reject(abortError(signal, provider));
+    }
 
-    return apiKey;
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(abortError(signal, provider));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener('abort', onAbort);
+                reject(signal.aborted ? abortError(signal, provider) : error);
+            }
+        );
+    });
+}
+
+// Iterate an adapter stream, stopping as soon as the signal aborts
+export async function* withAbortStream<T>(stream: AsyncGenerator<T>, signal: AbortSignal, provider: LLMProvider): AsyncGenerator<T> {
+    let done = false;
+    try {
+        while (true) {
+            const result = await withAbort(stream.next(), signal, provider);
+            if (result.done) {
+                done = true;
+                return;
+            }
+            yield result.value;
+        }
+    } finally {
+        if (!done) {
+            // Not awaited - the pending next() settles once the upstream request is aborted
+            stream.return(undefined).catch(() => {});
+        }
+    }
 }
 
 // Parse JSON from LLM output - handles common formatting issues
@@ -146,6 +302,436 @@ export function parseLLMJson<T = any>(jsonString: string): T {
     }
 }
 
+// Parse tool call arguments - providers send them as a JSON string
+export function parseToolArguments(args: string | undefined): any {
+    if (!args) {
+        return {};
+    }
+    try {
+        return JSON.parse(args);
+    } catch (error) {
+        return parseLLMJson(args);
+    }
+}
+
+export type PartialJsonElement = {
+    path: (string | number)[]; // Path of the array holding the element, [] for a top-level array
+    index: number;
+    value: any;
+}
+
+export type PartialJson = {
+    value: any; // Undefined until the JSON starts
+    complete: boolean;
+    elements: PartialJsonElement[]; // Array elements read to their end, in the order they closed
+}
+
+type PartialValue = {
+    value: any;
+    complete: boolean;
+}
+
+/**
+ * Parse JSON that may be cut off, e.g. the text of a structured stream so far
+ * Open strings, objects and arrays are closed, unfinished numbers and literals are left out
+ * @param text JSON text, possibly preceded by a code fence
+ */
+export function parsePartialJson(text: string): PartialJson {
+    const elements: PartialJsonElement[] = [];
+    let pos = text.search(/[{[]/);
+    if (pos === -1) {
+        return { value: undefined, complete: false, elements };
+    }
+
+    const end = () => pos >= text.length;
+    const skipWhitespace = () => {
+        while (!end() && /\s/.test(text[pos])) {
+            pos++;
+        }
+    };
+    const decodeString = (raw: string) => {
+        try {
+            return JSON.parse(`"${raw}"`);
+        } catch (error) {
+            return raw; // Raw control characters, which LLMs sometimes put in strings
+        }
+    };
+
+    const parseString = (): PartialValue => {
+        pos++; // Opening quote
+        const start = pos;
+        while (!end()) {
+            if (text[pos] === '\\') {
+                // Leave out an escape sequence that is cut off
+                const length = text[pos + 1] === 'u' ? 6 : 2;
+                if (pos + length > text.length) {
+                    break;
+                }
+                pos += length;
+            } else if (text[pos] === '"') {
+                pos++;
+                return { value: decodeString(text.slice(start, pos - 1)), complete: true };
+            } else {
+                pos++;
+            }
+        }
+        const raw = text.slice(start, pos);
+        pos = text.length;
+        return { value: decodeString(raw), complete: false };
+    };
+
+    const parseScalar = (): PartialValue => {
+        const scalar = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+        scalar.lastIndex = pos;
+        const match = scalar.exec(text);
+        if (!match) {
+            pos = text.length; // Unfinished literal or invalid JSON, nothing more can be read
+            return { value: undefined, complete: false };
+        }
+        pos += match[0].length;
+        // A number at the end of the text may still get more digits
+        if (end() && /\d$/.test(match[0])) {
+            return { value: undefined, complete: false };
+        }
+        return { value: JSON.parse(match[0]), complete: true };
+    };
+
+    const parseObject = (path: (string | number)[]): PartialValue => {
+        pos++; // Opening brace
+        const object: { [key: string]: any } = {};
+        while (true) {
+            skipWhitespace();
+            if (end()) {
+                return { value: object, complete: false };
+            }
+            if (text[pos] === '}') {
+                pos++;
+                return { value: object, complete: true };
+            }
+            if (text[pos] === ',') {
+                pos++;
+                continue;
+            }
+            if (text[pos] !== '"') {
+                pos = text.length;
+                return { value: object, complete: false };
+            }
+            const key = parseString();
+            skipWhitespace();
+            if (!key.complete || text[pos] !== ':') {
+                pos = text.length;
+                return { value: object, complete: false };
+            }
+            pos++;
+            const member = parseValue([...path, key.value]);
+            if (member.value !== undefined) {
+                object[key.value] = member.value;
+            }
+            if (!member.complete) {
+                return { value: object, complete: false };
+            }
+        }
+    };
+
+    const parseArray = (path: (string | number)[]): PartialValue => {
+        pos++; // Opening bracket
+        const array: any[] = [];
+        while (true) {
+            skipWhitespace();
+            if (end()) {
+                return { value: array, complete: false };
+            }
+            if (text[pos] === ']') {
+                pos++;
+                return { value: array, complete: true };
+            }
+            if (text[pos] === ',') {
+                pos++;
+                continue;
+            }
+            const item = parseValue([...path, array.length]);
+            if (item.value !== undefined) {
+                array.push(item.value);
+            }
+            if (!item.complete) {
+                return { value: array, complete: false };
+            }
+            elements.push({ path, index: array.length - 1, value: item.value });
+        }
+    };
+
+    const parseValue = (path: (string | number)[]): PartialValue => {
+        skipWhitespace();
+        if (end()) {
+            return { value: undefined, complete: false };
+        }
+        switch (text[pos]) {
+            case '{':
+                return parseObject(path);
+            case '[':
+                return parseArray(path);
+            case '"':
+                return parseString();
+            default:
+                return parseScalar();
+        }
+    };
+
+    const { value, complete } = parseValue([]);
+    return { value, complete, elements };
+}
+
+// A user turn that does not answer tool calls, so a history can start with it
+export function isPlainUserTurn(message: LLMMessage): boolean {
+    return message.role === 'user' && (typeof message.content === 'string' || message.content.every(part => part.type !== 'tool_result'));
+}
+
+// Build the assistant turn that carries the model's tool calls
+export function toolCallMessage(text: string, toolCalls: LLMToolCall[], thinking: LLMThinking[] = []): LLMMessage {
+    return {
+        role: 'assistant',
+        content: [
+            ...thinking.map(block => ({ type: 'thinking' as const, thinking: block })),
+            ...(text ? [{ type: 'text' as const, text }] : []),
+            ...toolCalls.map(toolCall => ({ type: 'tool_call' as const, toolCall }))
+        ]
+    };
+}
+
+// Run the handlers of the requested tools and build the user turn with their results
+export async function executeToolCalls(tools: LLMTool[], toolCalls: LLMToolCall[]): Promise<LLMMessage> {
+    const content: LLMMessage['content'] = [];
+
+    for (const call of toolCalls) {
+        const tool = tools.find(t => t.name === call.name);
+        try {
+            if (!tool?.handler) {
+                throw new Error(`No handler for tool: ${call.name}`);
+            }
+            const output = await tool.handler(call.arguments);
+            content.push({
+                type: 'tool_result',
+                toolResult: {
+                    id: call.id,
+                    name: call.name,
+                    content: typeof output === 'string' ? output : JSON.stringify(output ?? null)
+                }
+            });
+        } catch (error: any) {
+            content.push({
+                type: 'tool_result',
+                toolResult: {
+                    id: call.id,
+                    name: call.name,
+                    content: error?.message || String(error),
+                    isError: true
+                }
+            });
+        }
+    }
+
+    return { role: 'user', content };
+}
+
+// Validate a value against a JSON Schema - supports the keywords LLM output schemas commonly use
+export function validateJsonSchema(schema: JSONSchema, value: any, path: string = '$'): string[] {
+    const errors: string[] = [];
+
+    const typeOf = (v: any): string => {
+        if (v === null) return 'null';
+        if (Array.isArray(v)) return 'array';
+        if (typeof v === 'number' && Number.isInteger(v)) return 'integer';
+        return typeof v;
+    };
+
+    if (schema.type) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        const actual = typeOf(value);
+        const matches = types.some(type => type === actual || (type === 'number' && actual === 'integer'));
+        if (!matches) {
+            return [`${path}: expected ${types.join(' | ')}, got ${actual}`];
+        }
+    }
+
+    if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+        errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((e: any) => JSON.stringify(e) === JSON.stringify(value))) {
+        errors.push(`${path}: must be one of ${schema.enum.map((e: any) => JSON.stringify(e)).join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path}: must have at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${path}: must have at most ${schema.maxLength} characters`);
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+            errors.push(`${path}: must match pattern ${schema.pattern}`);
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path}: must be >= ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path}: must be <= ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path}: must have at least ${schema.minItems} items`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path}: must have at most ${schema.maxItems} items`);
+        }
+        if (schema.items) {
+            value.forEach((item, i) => errors.push(...validateJsonSchema(schema.items, item, `${path}[${i}]`)));
+        }
+    }
+
+    if (typeOf(value) === 'object') {
+        const properties: { [key: string]: JSONSchema } = schema.properties || {};
+        for (const key of schema.required || []) {
+            if (value[key] === undefined) {
+                errors.push(`${path}.${key}: is required`);
+            }
+        }
+        for (const [key, item] of Object.entries(value)) {
+            if (properties[key]) {
+                errors.push(...validateJsonSchema(properties[key], item, `${path}.${key}`));
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: is not allowed`);
+            } else if (typeof schema.additionalProperties === 'object') {
+                errors.push(...validateJsonSchema(schema.additionalProperties, item, `${path}.${key}`));
+            }
+        }
+    }
+
+    if (Array.isArray(schema.allOf)) {
+        schema.allOf.forEach((sub: JSONSchema) => errors.push(...validateJsonSchema(sub, value, path)));
+    }
+    const alternatives: JSONSchema[] | undefined = schema.anyOf || schema.oneOf;
+    if (Array.isArray(alternatives) && !alternatives.some(sub => validateJsonSchema(sub, value, path).length === 0)) {
+        errors.push(`${path}: does not match any allowed schema`);
+    }
+
+    return errors;
+}
+
+/**
+ * Remove null values of optional properties whose schema does not allow null
+ * Strict structured output makes optional properties required and nullable, so a left out property arrives as null
+ * @param root Schema the local $refs of schema point into
+ * @returns A copy of the value without those nulls
+ */
+export function removeNullOptionals(value: any, schema: JSONSchema | undefined, root: JSONSchema | undefined = schema): any {
+    const resolve = (node: JSONSchema | undefined): JSONSchema | undefined => typeof node?.$ref === 'string' && node.$ref.startsWith('#/')
+        ? resolve(node.$ref.slice(2).split('/').reduce((target: any, key: string) => target?.[key], root))
+        : node;
+    schema = resolve(schema);
+    if (!schema || value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (Array.isArray(schema.anyOf)) {
+        // The first alternative the value matches once its nulls are removed
+        for (const alternative of schema.anyOf) {
+            const cleaned = removeNullOptionals(value, alternative, root);
+            if (validateJsonSchema(resolve(alternative) || {}, cleaned).length === 0) {
+                return cleaned;
+            }
+        }
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => removeNullOptionals(item, schema!.items, root));
+    }
+    if (!schema.properties) {
+        return value;
+    }
+    const required: string[] = schema.required || [];
+    const cleaned: { [key: string]: any } = {};
+    for (const [key, item] of Object.entries(value)) {
+        const property = resolve(schema.properties[key]);
+        if (item === null && property && !required.includes(key) && validateJsonSchema(property, null).length > 0) {
+            continue;
+        }
+        cleaned[key] = removeNullOptionals(item, property, root);
+    }
+    return cleaned;
+}
+
+// Run a structured data validator - either a JSON Schema or a user function
+export async function validateStructuredData(data: any, validator: JSONSchema | StructuredDataValidator): Promise<string[]> {
+    if (typeof validator === 'function') {
+        return await validator(data);
+    }
+    return validateJsonSchema(validator, data);
+}
+
+// Follow-up turn asking the model to fix its previous JSON output
+export function buildRepairPrompt(errors: string[]): string {
+    return `
+        |Your previous JSON output failed validation:
+        |${errors.map(error => `- ${error}`).join('\n')}
+        |
+        |Return the corrected JSON only, without any explanation.
+        |`.replace(/\n *\|/g, '\n').trim();
+}
+
+// Add a streamed thinking chunk to the blocks of a reply - a signature or redacted data ends a block
+export function appendThinking(blocks: LLMThinking[], chunk: LLMThinking): void {
+    const last = blocks[blocks.length - 1];
+    if (!last || last.signature || last.redacted || chunk.redacted) {
+        blocks.push({ ...chunk });
+        return;
+    }
+    last.text += chunk.text;
+    if (chunk.signature) {
+        last.signature = chunk.signature;
+    }
+}
+
+export function thinkingText(blocks: LLMThinking[] | undefined): string {
+    return (blocks || []).map(block => block.text).join('');
+}
+
+const REASONING_BUDGETS = { low: 2048, medium: 8192, high: 24576 };
+
+// Thinking token budget of a reasoning option, 0 when off
+export function reasoningBudget(reasoning: LLMReasoning | undefined): number | undefined {
+    if (reasoning === undefined) {
+        return undefined;
+    }
+    if (reasoning === 'off') {
+        return 0;
+    }
+    return typeof reasoning === 'object' ? reasoning.budgetTokens : REASONING_BUDGETS[reasoning];
+}
+
+// Reasoning level of a reasoning option, for providers that take a level instead of a budget
+export function reasoningEffort(reasoning: LLMReasoning | undefined): 'low' | 'medium' | 'high' | undefined {
+    const budget = reasoningBudget(reasoning);
+    if (!budget) {
+        return undefined;
+    }
+    if (typeof reasoning === 'string') {
+        return reasoning as 'low' | 'medium' | 'high';
+    }
+    return budget <= REASONING_BUDGETS.low ? 'low' : budget <= REASONING_BUDGETS.medium ? 'medium' : 'high';
+}
+
+// Turns asking the model to continue a reply that was cut off by the token limit
+export function continuationMessages(partialText: string): LLMMessage[] {
+    return [
+        { role: 'assistant', content: partialText },
+        { role: 'user', content: 'Your previous reply was cut off. Continue exactly where it stopped, without repeating any text and without any introduction.' }
+    ];
+}
+
 // Validate base64 string
 export function isValidBase64(str: string): boolean {
     if (!str || typeof str !== 'string') {